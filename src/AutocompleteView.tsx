@@ -0,0 +1,233 @@
+import React, { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import type { AutocompleteProps } from "./Autocomplete";
+import { joinClassNames } from "./classNames";
+import { useAutocomplete } from "./useAutocomplete";
+
+const DEFAULT_WRAPPER_STYLE: React.CSSProperties = { display: "inline-block" };
+
+export interface AutocompleteViewProps<ItemT> extends AutocompleteProps<ItemT> {
+  exposeAPI: (el: HTMLInputElement | null) => void;
+}
+
+/**
+ * Renders the markup of `Autocomplete` on top of `useAutocomplete`.
+ */
+export function AutocompleteView<ItemT>(props: AutocompleteViewProps<ItemT>) {
+  const {
+    isOpen,
+    highlightedIndex,
+    items,
+    value,
+    menuPosition,
+    getInputProps,
+    getMenuProps,
+    getItemProps,
+    getItemKey,
+    getLiveRegionProps,
+    getHiddenInputProps,
+    getItemMatch,
+    groups,
+    getGroupProps,
+    getGroupHeaderProps,
+    virtualItems,
+    totalSize,
+    loading,
+    error,
+    loadingMore,
+    createItem,
+    creating,
+    createError,
+    showingSuggestions,
+    recentItems,
+    clearHistory,
+    selectedItems,
+    getSelectedItemProps,
+    removeSelectedItem,
+  } = useAutocomplete(props);
+  const debugStates = useRef([]);
+  // Portals need the DOM, which neither the server nor hydration can use
+  const [mounted, setMounted] = useState(false);
+  useEffect(() => setMounted(true), []);
+
+  if (props.debug) {
+    // you don't like it, you love it
+    debugStates.current.push({
+      id: debugStates.current.length,
+      state: { isOpen, highlightedIndex, ...menuPosition },
+    });
+  }
+
+  const { classNames = {} } = props;
+  const addClassName = (
+    element: React.ReactElement,
+    className: string | undefined,
+    extraProps?: React.Attributes
+  ) =>
+    React.cloneElement(element, {
+      ...extraProps,
+      className: joinClassNames(element.props.className, className),
+    });
+
+  const itemStyle: React.CSSProperties = props.unstyled
+    ? {}
+    : { cursor: "default" };
+
+  const renderItem = (item: ItemT, index: number) => {
+    const isHighlighted = highlightedIndex === index;
+    const element =
+      item === createItem
+        ? props.renderCreateItem(
+            value,
+            isHighlighted,
+            itemStyle,
+            creating,
+            createError
+          )
+        : props.renderItem(item, isHighlighted, itemStyle, getItemMatch(item));
+    const itemProps: React.HTMLAttributes<HTMLElement> = getItemProps({
+      item,
+      index,
+    });
+    return React.cloneElement(element, {
+      // `getItemKey` wins over the key set by `renderItem`, if any
+      key: props.getItemKey
+        ? getItemKey(item, index)
+        : element.key ?? getItemKey(item, index),
+      ...itemProps,
+      className: joinClassNames(
+        element.props.className,
+        classNames.item,
+        isHighlighted && classNames.highlightedItem,
+        itemProps["aria-disabled"] && classNames.disabledItem
+      ),
+    });
+  };
+
+  const renderSpacer = (key: string, height: number) => (
+    <div key={key} role="presentation" aria-hidden style={{ height }} />
+  );
+
+  const renderMenu = () => {
+    let elements: React.ReactElement[];
+    if (virtualItems) {
+      const first = virtualItems[0];
+      const last = virtualItems[virtualItems.length - 1];
+      elements = [
+        renderSpacer("before", first.start),
+        ...virtualItems.map(({ item, index }) => renderItem(item, index)),
+        renderSpacer("after", totalSize - last.start - last.size),
+      ];
+    } else if (groups) {
+      elements = groups.map((group) => (
+        <div key={group.id} {...getGroupProps(group)}>
+          {React.cloneElement(
+            props.renderGroupHeader(group.name),
+            getGroupHeaderProps(group)
+          )}
+          {group.items.map(({ item, index }) => renderItem(item, index))}
+        </div>
+      ));
+      if (createItem) elements.push(renderItem(createItem, items.length - 1));
+    } else {
+      elements = items.map(renderItem);
+    }
+    const status = loading
+      ? props.renderLoading?.(value)
+      : error
+      ? props.renderError?.(error, value)
+      : !items.length
+      ? props.renderEmpty?.(value)
+      : null;
+    const statusClassName = loading
+      ? classNames.loading
+      : error
+      ? undefined
+      : classNames.empty;
+    const loadingMoreRow = loadingMore && props.renderLoadingMore?.(value);
+    if (loadingMoreRow) {
+      elements.push(
+        addClassName(loadingMoreRow, classNames.loading, {
+          key: "loading-more",
+        })
+      );
+    }
+    if (status) {
+      elements.push(addClassName(status, statusClassName, { key: "status" }));
+    }
+    if (showingSuggestions && recentItems.length && props.renderClearHistory) {
+      elements.push(
+        React.cloneElement(props.renderClearHistory(clearHistory), {
+          key: "clear-history",
+        })
+      );
+    }
+    const menuElement = props.renderMenu(elements, value, menuPosition);
+    const menu = React.cloneElement(
+      menuElement,
+      getMenuProps({
+        className: joinClassNames(menuElement.props.className, classNames.menu),
+      })
+    );
+    // The focus handling only relies on the handlers attached to the menu,
+    // which React keeps dispatching through the portal
+    const { portalContainer } = props;
+    if (portalContainer && !mounted) return null;
+    return portalContainer
+      ? createPortal(
+          menu,
+          typeof portalContainer === "function"
+            ? portalContainer()
+            : portalContainer
+        )
+      : menu;
+  };
+
+  const { inputProps } = props;
+  return (
+    <div
+      className={joinClassNames(props.className, classNames.wrapper)}
+      style={
+        props.wrapperStyle ??
+        (props.unstyled ? undefined : DEFAULT_WRAPPER_STYLE)
+      }
+      data-open={isOpen || undefined}
+      {...props.wrapperProps}
+    >
+      {props.multiple &&
+        selectedItems.map((item, index) =>
+          React.cloneElement(
+            props.renderSelectedItem(item, () => removeSelectedItem(item)),
+            {
+              key: getItemKey(item, index),
+              ...getSelectedItemProps({ item, index }),
+            }
+          )
+        )}
+      {props.renderInput(
+        getInputProps({
+          ...inputProps,
+          className: joinClassNames(inputProps.className, classNames.input),
+          ref: props.exposeAPI,
+        })
+      )}
+      {getHiddenInputProps().map((hiddenInputProps, index) => (
+        <input key={index} {...hiddenInputProps} />
+      ))}
+      {isOpen && renderMenu()}
+      <div {...getLiveRegionProps()} />
+      {props.debug && (
+        <pre style={{ marginLeft: 300 }}>
+          {JSON.stringify(
+            debugStates.current.slice(
+              Math.max(0, debugStates.current.length - 5),
+              debugStates.current.length
+            ),
+            null,
+            2
+          )}
+        </pre>
+      )}
+    </div>
+  );
+}
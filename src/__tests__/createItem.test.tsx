@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { act } from "react-dom/test-utils";
+import { describe, expect, it, vi } from "vitest";
+import { Autocomplete } from "../Autocomplete";
+import { deferred, render, typeInto } from "./render";
+
+function App({ onCreate }: { onCreate: (query: string) => Promise<string> }) {
+  const [value, setValue] = useState("");
+  return (
+    <Autocomplete
+      items={["apple", "banana"]}
+      value={value}
+      onChange={(_event, nextValue) => setValue(nextValue)}
+      onSelect={(nextValue) => setValue(nextValue)}
+      onCreate={onCreate}
+      getItemValue={(item: string) => item}
+      match="prefix"
+      renderItem={(item) => <div>{item}</div>}
+    />
+  );
+}
+
+function pressEnter(input: HTMLInputElement) {
+  act(() => {
+    input.dispatchEvent(
+      new KeyboardEvent("keydown", { key: "Enter", keyCode: 13, bubbles: true })
+    );
+  });
+}
+
+describe("onCreate", () => {
+  it("keeps the menu open until the item is created", async () => {
+    const created = deferred<string>();
+    const onCreate = vi.fn(() => created.promise);
+    const { container, unmount } = render(<App onCreate={onCreate} />);
+    const input = container.querySelector("input");
+    act(() => input.focus());
+    typeInto(input, "kiwi");
+    pressEnter(input);
+    expect(onCreate).toHaveBeenCalledWith("kiwi");
+    expect(container.textContent).toContain('Creating "kiwi"…');
+
+    await act(async () => created.resolve("kiwi"));
+    expect(container.querySelector("[role=listbox]")).toBe(null);
+    expect(input.value).toBe("kiwi");
+    unmount();
+  });
+
+  it("tells why the item could not be created", async () => {
+    const created = deferred<string>();
+    const { container, unmount } = render(
+      <App onCreate={() => created.promise} />
+    );
+    const input = container.querySelector("input");
+    act(() => input.focus());
+    typeInto(input, "kiwi");
+    const createEntry = container.querySelector<HTMLElement>(
+      "[role=option]:last-child"
+    );
+    act(() => createEntry.click());
+    await act(async () => created.reject(new Error("Offline")));
+    expect(container.textContent).toContain('Could not create "kiwi"');
+    unmount();
+  });
+});
@@ -0,0 +1,72 @@
+import { act } from "react-dom/test-utils";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Autocomplete } from "../Autocomplete";
+import { render } from "./render";
+
+const items = ["apple", "banana", "blueberry", "cherry"];
+
+function renderAutocomplete() {
+  const rendered = render(
+    <>
+      <Autocomplete
+        items={items}
+        getItemValue={(item: string) => item}
+        renderItem={(item) => <div>{item}</div>}
+      />
+      <button>Next</button>
+    </>
+  );
+  const input = rendered.container.querySelector("input");
+  const getMenu = () =>
+    rendered.container.querySelector<HTMLElement>("[role=listbox]");
+  act(() => input.focus());
+  return { ...rendered, input, getMenu };
+}
+
+beforeEach(() => {
+  // Not implemented by jsdom
+  vi.spyOn(window, "scrollTo").mockImplementation(() => undefined);
+  return () => vi.restoreAllMocks();
+});
+
+function pressKey(target: HTMLElement, key: string) {
+  act(() => {
+    target.dispatchEvent(
+      new KeyboardEvent("keydown", {
+        key,
+        keyCode: key === "Enter" ? 13 : 0,
+        bubbles: true,
+      })
+    );
+  });
+}
+
+describe("focus in the menu", () => {
+  it("keeps the menu open for type-to-jump", () => {
+    const { getMenu, unmount } = renderAutocomplete();
+    act(() => getMenu().focus());
+    expect(document.activeElement).toBe(getMenu());
+    pressKey(getMenu(), "b");
+    pressKey(getMenu(), "l");
+    const highlighted = getMenu().querySelector("[aria-selected=true]");
+    expect(highlighted.textContent).toBe("blueberry");
+    unmount();
+  });
+
+  it("closes the menu when the focus leaves it", () => {
+    const { container, getMenu, unmount } = renderAutocomplete();
+    act(() => getMenu().focus());
+    act(() => container.querySelector("button").focus());
+    expect(getMenu()).toBe(null);
+    unmount();
+  });
+
+  it("gives the focus back to the input once closed", () => {
+    const { input, getMenu, unmount } = renderAutocomplete();
+    act(() => getMenu().focus());
+    pressKey(getMenu(), "Escape");
+    expect(getMenu()).toBe(null);
+    expect(document.activeElement).toBe(input);
+    unmount();
+  });
+});
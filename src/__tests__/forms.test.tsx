@@ -0,0 +1,65 @@
+import { act } from "react-dom/test-utils";
+import { describe, expect, it, vi } from "vitest";
+import { Autocomplete, AutocompleteProps } from "../Autocomplete";
+import { render } from "./render";
+
+const items = ["apple", "banana", "cherry"];
+
+function renderInForm(props: Partial<AutocompleteProps<string>>) {
+  const onChange = vi.fn();
+  const rendered = render(
+    <form>
+      <Autocomplete
+        items={items}
+        value="banana"
+        onChange={onChange}
+        getItemValue={(item: string) => item}
+        renderItem={(item) => <div>{item}</div>}
+        {...props}
+      />
+    </form>
+  );
+  const form = rendered.container.querySelector("form");
+  return { ...rendered, form, onChange };
+}
+
+describe("form reset", () => {
+  it("leaves a form it is not wired to alone", () => {
+    const { form, onChange, unmount } = renderInForm({});
+    act(() => form.reset());
+    expect(onChange).not.toHaveBeenCalled();
+    unmount();
+  });
+
+  it("goes back to the initial value with name", () => {
+    const { form, onChange, unmount } = renderInForm({ name: "fruit" });
+    act(() => form.reset());
+    expect(onChange).toHaveBeenCalledWith(null, "banana", "form-reset");
+    unmount();
+  });
+});
+
+describe("hidden input", () => {
+  it("follows getItemFormValue", () => {
+    const element = (getItemFormValue: (item: string) => string) => (
+      <Autocomplete
+        items={items}
+        value="banana"
+        name="fruit"
+        getItemValue={(item: string) => item}
+        getItemFormValue={getItemFormValue}
+        renderItem={(item) => <div>{item}</div>}
+      />
+    );
+    const { container, rerender, unmount } = render(
+      element((item) => item.toUpperCase())
+    );
+    const hiddenInput = container.querySelector<HTMLInputElement>(
+      "input[type=hidden]"
+    );
+    expect(hiddenInput.value).toBe("BANANA");
+    rerender(element((item) => `fruit-${item}`));
+    expect(hiddenInput.value).toBe("fruit-banana");
+    unmount();
+  });
+});
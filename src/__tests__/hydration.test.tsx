@@ -0,0 +1,99 @@
+import { ReactElement } from "react";
+import { hydrateRoot, Root } from "react-dom/client";
+import { renderToString } from "react-dom/server";
+import { act } from "react-dom/test-utils";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Autocomplete, AutocompleteProps } from "../Autocomplete";
+import { createMemoryStorage } from "../useRecentItems";
+import "./render";
+
+const items = ["apple", "banana", "cherry"];
+
+function App(props: Partial<AutocompleteProps<string>>) {
+  return (
+    <Autocomplete
+      items={items}
+      getItemValue={(item: string) => item}
+      renderItem={(item) => <div>{item}</div>}
+      {...props}
+    />
+  );
+}
+
+let root: Root | null = null;
+
+/**
+ * Renders `element` to a string, then hydrates that markup in the document.
+ * Returns the container and the errors React logged meanwhile.
+ */
+function hydrate(element: ReactElement) {
+  const container = document.createElement("div");
+  document.body.appendChild(container);
+  const consoleError = vi.spyOn(console, "error").mockImplementation(() => {
+    // Collected below
+  });
+  // The document makes the layout effects run here, unlike on a server,
+  // which React warns about; the markup is the same
+  container.innerHTML = renderToString(element);
+  consoleError.mockClear();
+  act(() => {
+    root = hydrateRoot(container, element, {
+      onRecoverableError: (error) => console.error(error),
+    });
+  });
+  const errors = consoleError.mock.calls;
+  consoleError.mockRestore();
+  return { container, errors };
+}
+
+afterEach(() => {
+  act(() => root?.unmount());
+  root = null;
+  document.body.innerHTML = "";
+});
+
+describe("hydration", () => {
+  it("hydrates an open menu", () => {
+    const { container, errors } = hydrate(<App open />);
+    expect(errors).toEqual([]);
+    const input = container.querySelector("input");
+    const menu = container.querySelector("[role=listbox]");
+    expect(input.getAttribute("aria-controls")).toBe(menu.id);
+  });
+
+  it("renders a menu in a portal once hydrated", () => {
+    const { container, errors } = hydrate(
+      <App open portalContainer={() => document.body} />
+    );
+    expect(errors).toEqual([]);
+    const menu = document.querySelector("[role=listbox]");
+    expect(container.contains(menu)).toBe(false);
+    expect(menu.parentElement).toBe(document.body);
+    expect(container.querySelector("input").getAttribute("aria-controls")).toBe(
+      menu.id
+    );
+  });
+
+  it("hydrates the hidden input", () => {
+    const { container, errors } = hydrate(<App value="banana" name="fruit" />);
+    expect(errors).toEqual([]);
+    const hiddenInput = container.querySelector<HTMLInputElement>(
+      "input[type=hidden]"
+    );
+    expect(hiddenInput.name).toBe("fruit");
+    expect(hiddenInput.value).toBe("banana");
+  });
+
+  it("displays the recent items once hydrated", () => {
+    const storage = createMemoryStorage();
+    storage.setItem("fruits", JSON.stringify(["banana"]));
+    const { container, errors } = hydrate(
+      <App open items={[]} history={{ key: "fruits", storage }} />
+    );
+    expect(errors).toEqual([]);
+    const options = container.querySelectorAll("[role=option]");
+    expect([...options].map((option) => option.textContent)).toEqual([
+      "banana",
+    ]);
+  });
+});
@@ -0,0 +1,158 @@
+import React from "react";
+import { describe, expect, it, vi } from "vitest";
+import { AutocompleteContext, keyDownHandlers } from "../keyDownHandlers";
+import { StateChanges, UseAutocompleteProps } from "../useAutocomplete";
+
+// Items starting with "-" can't be selected
+const items = ["-fruits", "apple", "banana", "-vegetables", "carrot", "leek"];
+
+interface Options {
+  highlightedIndex?: number | null;
+  isOpen?: boolean;
+  props?: Partial<UseAutocompleteProps<string>>;
+}
+
+/**
+ * A context whose state changes are recorded rather than applied.
+ */
+function createContext({
+  highlightedIndex = null,
+  isOpen = true,
+  props,
+}: Options = {}) {
+  const changes: StateChanges[] = [];
+  const context: AutocompleteContext<string> = {
+    props: {
+      getItemValue: (item) => item,
+      isItemSelectable: (item) => !item.startsWith("-"),
+      wrapAround: true,
+      onSelect: vi.fn(),
+      ...props,
+    },
+    state: { isOpen, highlightedIndex },
+    setState: (update, callback) => {
+      changes.push(update as StateChanges);
+      if (callback) callback();
+    },
+    getFilteredItems: () => items,
+    isOpen: () => isOpen,
+    setIgnoreBlur: vi.fn(),
+    checkSelection: vi.fn(),
+    loadMore: vi.fn(),
+    getPageSize: () => 3,
+    inputRef: { current: document.createElement("input") },
+  };
+  return { context, changes };
+}
+
+function press(context: AutocompleteContext<string>, key: string, keyCode = 0) {
+  const event = {
+    key,
+    keyCode,
+    preventDefault: vi.fn(),
+  } as unknown as React.KeyboardEvent<HTMLInputElement>;
+  keyDownHandlers[key].call(context, event);
+  return event;
+}
+
+describe("keyDownHandlers", () => {
+  it("moves down to the next selectable item", () => {
+    const { context, changes } = createContext({ highlightedIndex: 2 });
+    press(context, "ArrowDown");
+    expect(changes).toEqual([
+      { highlightedIndex: 4, isOpen: true, type: "keyboard-arrow" },
+    ]);
+  });
+
+  it("wraps around with wrapAround only", () => {
+    const wrapping = createContext({ highlightedIndex: 5 });
+    press(wrapping.context, "ArrowDown");
+    expect(wrapping.changes[0].highlightedIndex).toBe(1);
+
+    const stopping = createContext({
+      highlightedIndex: 5,
+      props: { wrapAround: false },
+    });
+    press(stopping.context, "ArrowDown");
+    expect(stopping.changes).toEqual([]);
+  });
+
+  it("requests the next page instead of wrapping around", () => {
+    const { context, changes } = createContext({
+      highlightedIndex: 5,
+      props: { hasMore: true },
+    });
+    press(context, "ArrowDown");
+    expect(context.loadMore).toHaveBeenCalled();
+    expect(changes).toEqual([]);
+  });
+
+  it("moves up to the last selectable item from nothing", () => {
+    const { context, changes } = createContext();
+    press(context, "ArrowUp");
+    expect(changes[0].highlightedIndex).toBe(5);
+  });
+
+  it("leaves Home and End to the caret until an item is highlighted", () => {
+    const { context, changes } = createContext();
+    const event = press(context, "Home");
+    expect(event.preventDefault).not.toHaveBeenCalled();
+    expect(changes).toEqual([]);
+  });
+
+  it("goes to the first and last selectable items with Home and End", () => {
+    const { context, changes } = createContext({ highlightedIndex: 2 });
+    press(context, "Home");
+    press(context, "End");
+    expect(changes.map((change) => change.highlightedIndex)).toEqual([1, 5]);
+  });
+
+  it("moves by a page, stopping on a selectable item", () => {
+    const { context, changes } = createContext({ highlightedIndex: 0 });
+    press(context, "PageDown");
+    expect(changes[0]).toEqual({
+      highlightedIndex: 4,
+      type: "keyboard-page",
+    });
+    const fromEnd = createContext({ highlightedIndex: 5 });
+    press(fromEnd.context, "PageUp");
+    expect(fromEnd.changes[0].highlightedIndex).toBe(2);
+  });
+
+  it("selects the highlighted item with Enter", () => {
+    const { context, changes } = createContext({ highlightedIndex: 2 });
+    press(context, "Enter", 13);
+    expect(changes).toEqual([
+      { isOpen: false, highlightedIndex: null, type: "keyboard-enter" },
+    ]);
+    expect(context.props.onSelect).toHaveBeenCalledWith(
+      "banana",
+      "banana",
+      "keyboard-enter"
+    );
+  });
+
+  it("leaves Enter to an input method picking a candidate", () => {
+    const { context, changes } = createContext({ highlightedIndex: 2 });
+    press(context, "Enter", 229);
+    expect(changes).toEqual([]);
+    expect(context.props.onSelect).not.toHaveBeenCalled();
+  });
+
+  it("checks the value with Enter when nothing is highlighted", () => {
+    const { context } = createContext({ isOpen: false });
+    press(context, "Enter", 13);
+    expect(context.checkSelection).toHaveBeenCalledWith(
+      expect.anything(),
+      "keyboard-enter"
+    );
+  });
+
+  it("closes the menu with Escape", () => {
+    const { context, changes } = createContext({ highlightedIndex: 2 });
+    press(context, "Escape");
+    expect(changes).toEqual([
+      { highlightedIndex: null, isOpen: false, type: "escape" },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { createMatcher, resolveMatcher } from "../matching";
+
+describe("createMatcher", () => {
+  it("matches everything with an empty query", () => {
+    expect(createMatcher("prefix")("apple", "")).toEqual({
+      score: 0,
+      ranges: [],
+    });
+  });
+
+  it("matches the start of the text with prefix", () => {
+    const match = createMatcher("prefix");
+    expect(match("Apple", "ap")).toEqual({ score: 0.7, ranges: [[0, 2]] });
+    expect(match("pineapple", "ap")).toBe(null);
+  });
+
+  it("matches anywhere with substring, preferring the start", () => {
+    const match = createMatcher("substring");
+    const inside = match("pineapple", "app");
+    expect(inside.ranges).toEqual([[4, 7]]);
+    expect(inside.score).toBeCloseTo(1 / 6);
+    expect(match("apple", "app").score).toBeGreaterThan(inside.score);
+    expect(match("pineapple", "pear")).toBe(null);
+  });
+
+  it("matches the start of a word with word-start", () => {
+    const match = createMatcher("word-start");
+    expect(match("Big Apple", "ap").ranges).toEqual([[4, 6]]);
+    expect(match("snapple", "ap")).toBe(null);
+    expect(match("snap-apple", "ap").ranges).toEqual([[5, 7]]);
+  });
+
+  it("matches characters in order with fuzzy", () => {
+    const match = createMatcher("fuzzy");
+    expect(match("Granny Smith", "gsm")).toEqual({
+      score: 0.5,
+      ranges: [
+        [0, 1],
+        [7, 9],
+      ],
+    });
+    expect(match("apple", "pa")).toBe(null);
+  });
+
+  it("tells the case apart only with caseSensitive", () => {
+    expect(createMatcher("prefix")("Apple", "aP")).not.toBe(null);
+    const match = createMatcher("prefix", { caseSensitive: true });
+    expect(match("Apple", "ap")).toBe(null);
+    expect(match("Apple", "Ap").ranges).toEqual([[0, 2]]);
+  });
+
+  it("ignores diacritics unless told not to", () => {
+    const ignoring = createMatcher("substring");
+    expect(ignoring("Crème brûlée", "brulee").ranges).toEqual([[6, 12]]);
+    const match = createMatcher("substring", { ignoreDiacritics: false });
+    expect(match("Crème brûlée", "brulee")).toBe(null);
+    expect(match("Crème brûlée", "brûlée").ranges).toEqual([[6, 12]]);
+  });
+
+  it("keeps the diacritics of decomposed text in the ranges", () => {
+    const match = createMatcher("prefix");
+    // "è" as "e" followed by a combining grave accent
+    expect(match("Cre\u0300me", "cre").ranges).toEqual([[0, 4]]);
+    expect(match("Cre\u0300me", "creme").ranges).toEqual([[0, 6]]);
+  });
+
+  it("never splits a surrogate pair", () => {
+    const match = createMatcher("substring");
+    expect(match("x😀y", "😀y").ranges).toEqual([[1, 4]]);
+    // Deseret capital and small letter long I, outside the BMP
+    expect(match("\u{10400}b", "\u{10428}").ranges).toEqual([[0, 2]]);
+  });
+
+  it("merges the ranges of a character folded into several", () => {
+    // "İ" lowercases to "i" followed by a combining dot above
+    const match = createMatcher("fuzzy", { ignoreDiacritics: false });
+    expect(match("\u0130stanbul", "is").ranges).toEqual([[0, 2]]);
+  });
+});
+
+describe("resolveMatcher", () => {
+  it("shares a matcher per strategy", () => {
+    expect(resolveMatcher("fuzzy")).toBe(resolveMatcher("fuzzy"));
+  });
+
+  it("uses a custom matcher as it is", () => {
+    const matcher = () => null;
+    expect(resolveMatcher(matcher)).toBe(matcher);
+  });
+});
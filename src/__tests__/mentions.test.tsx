@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { act } from "react-dom/test-utils";
+import { describe, expect, it } from "vitest";
+import { Autocomplete } from "../Autocomplete";
+import { findMention, replaceMention } from "../mentions";
+import { render, typeInto } from "./render";
+
+const users = ["alice", "bob", "carol"];
+
+function Editor() {
+  const [value, setValue] = useState("");
+  return (
+    <Autocomplete
+      items={users}
+      value={value}
+      onChange={(_event, nextValue) => setValue(nextValue)}
+      onSelect={(nextValue) => setValue(nextValue)}
+      getItemValue={(item: string) => item}
+      renderItem={(item) => <div>{item}</div>}
+      match="prefix"
+      mentionTriggers={["@"]}
+      inlineCompletion
+    />
+  );
+}
+
+describe("findMention", () => {
+  it("finds the mention the caret is at the end of", () => {
+    expect(findMention("hi @bo", 6, ["@"])).toEqual({
+      trigger: "@",
+      query: "bo",
+      start: 3,
+      end: 6,
+    });
+  });
+
+  it("stops the mention at the caret", () => {
+    expect(findMention("hi @bob there", 5, ["@"])).toMatchObject({
+      query: "b",
+      start: 3,
+      end: 5,
+    });
+  });
+
+  it("finds any of the triggers at the start of the text", () => {
+    expect(findMention("#tag", 4, ["@", "#"])).toMatchObject({
+      trigger: "#",
+      query: "tag",
+      start: 0,
+    });
+  });
+
+  it("only finds triggers starting a word", () => {
+    expect(findMention("mail@bob", 8, ["@"])).toBe(null);
+  });
+
+  it("finds nothing once whitespace has been typed", () => {
+    expect(findMention("@bob is", 7, ["@"])).toBe(null);
+    expect(findMention("@bob ", 5, ["@"])).toBe(null);
+  });
+});
+
+describe("replaceMention", () => {
+  const mention = { trigger: "@", query: "b", start: 3, end: 5 };
+
+  it("adds a space after the value", () => {
+    expect(replaceMention("hi @b", mention, "bob")).toEqual({
+      text: "hi @bob ",
+      caret: 8,
+    });
+  });
+
+  it("puts the caret past the space already there", () => {
+    expect(replaceMention("hi @b there", mention, "bob")).toEqual({
+      text: "hi @bob there",
+      caret: 8,
+    });
+  });
+
+  it("keeps the text after the caret", () => {
+    expect(replaceMention("hi @bx", mention, "bob")).toEqual({
+      text: "hi @bob x",
+      caret: 8,
+    });
+  });
+});
+
+describe("mentions", () => {
+  it("leaves the text alone with inlineCompletion", () => {
+    const { container, unmount } = render(<Editor />);
+    const input = container.querySelector("input");
+    act(() => input.focus());
+    typeInto(input, "hi @");
+    typeInto(input, "hi @b");
+    expect(input.value).toBe("hi @b");
+    expect(container.querySelector("[role=listbox]")).not.toBe(null);
+    unmount();
+  });
+
+  it("replaces the mention with the selected item", () => {
+    const { container, unmount } = render(<Editor />);
+    const input = container.querySelector("input");
+    act(() => input.focus());
+    typeInto(input, "hi @");
+    typeInto(input, "hi @b");
+    act(() => {
+      input.dispatchEvent(
+        new KeyboardEvent("keydown", {
+          key: "Enter",
+          keyCode: 13,
+          bubbles: true,
+        })
+      );
+    });
+    expect(input.value).toBe("hi @bob ");
+    expect(container.querySelector("[role=listbox]")).toBe(null);
+    unmount();
+  });
+});
@@ -0,0 +1,79 @@
+import React from "react";
+import { createRoot, Root } from "react-dom/client";
+import { act } from "react-dom/test-utils";
+
+// Lets `act` flush the updates without warning about it
+(
+  globalThis as typeof globalThis & { IS_REACT_ACT_ENVIRONMENT: boolean }
+).IS_REACT_ACT_ENVIRONMENT = true;
+
+/**
+ * Renders `element` into a container attached to the document.
+ */
+export function render(element: React.ReactElement) {
+  const container = document.createElement("div");
+  document.body.appendChild(container);
+  let root: Root;
+  act(() => {
+    root = createRoot(container);
+    root.render(element);
+  });
+  return {
+    container,
+    rerender: (nextElement: React.ReactElement) =>
+      act(() => root.render(nextElement)),
+    unmount: () => {
+      act(() => root.unmount());
+      container.remove();
+    },
+  };
+}
+
+/**
+ * Renders a component calling `hook` with `props`. `result.current` holds
+ * what it returned last.
+ */
+export function renderHook<PropsT, ResultT>(
+  hook: (props: PropsT) => ResultT,
+  props: PropsT
+) {
+  const result = { current: undefined as ResultT };
+  const Probe = ({ hookProps }: { hookProps: PropsT }) => {
+    result.current = hook(hookProps);
+    return null;
+  };
+  const rendered = render(React.createElement(Probe, { hookProps: props }));
+  return {
+    result,
+    rerender: (nextProps: PropsT) =>
+      rendered.rerender(React.createElement(Probe, { hookProps: nextProps })),
+    unmount: rendered.unmount,
+  };
+}
+
+/**
+ * Changes the value of `input` the way typing does, so React sees it.
+ */
+export function typeInto(input: HTMLInputElement, value: string) {
+  const { set } = Object.getOwnPropertyDescriptor(
+    HTMLInputElement.prototype,
+    "value"
+  );
+  act(() => {
+    set.call(input, value);
+    input.dispatchEvent(new Event("input", { bubbles: true }));
+  });
+}
+
+/**
+ * A promise which is settled from outside.
+ */
+export function deferred<T>() {
+  let resolve: (value: T) => void;
+  let reject: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
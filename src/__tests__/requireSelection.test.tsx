@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { act } from "react-dom/test-utils";
+import { describe, expect, it, vi } from "vitest";
+import { Autocomplete, AutocompleteProps } from "../Autocomplete";
+import { render, typeInto } from "./render";
+
+const items = ["apple", "Banana", "cherry"];
+
+type Props = Partial<AutocompleteProps<string>>;
+
+function App(props: Props) {
+  const [value, setValue] = useState("apple");
+  return (
+    <Autocomplete
+      items={items}
+      value={value}
+      getItemValue={(item: string) => item}
+      renderItem={(item) => <div>{item}</div>}
+      requireSelection="revert"
+      {...props}
+      onChange={(event, nextValue, type) => {
+        setValue(nextValue);
+        props.onChange?.(event, nextValue, type);
+      }}
+      onSelect={(nextValue, item, type) => {
+        setValue(nextValue);
+        props.onSelect?.(nextValue, item, type);
+      }}
+    />
+  );
+}
+
+function renderApp(props: Props = {}) {
+  const rendered = render(<App {...props} />);
+  const input = rendered.container.querySelector("input");
+  act(() => input.focus());
+  return { ...rendered, input };
+}
+
+describe("requireSelection", () => {
+  it("reverts a value naming no item when the input loses focus", () => {
+    const onChange = vi.fn();
+    const onInvalid = vi.fn();
+    const { input, unmount } = renderApp({ onChange, onInvalid });
+    typeInto(input, "kiwi");
+    act(() => input.blur());
+    expect(onInvalid).toHaveBeenCalledWith("kiwi");
+    expect(onChange).toHaveBeenLastCalledWith(null, "apple", "blur");
+    expect(input.value).toBe("apple");
+    unmount();
+  });
+
+  it("clears a value naming no item in clear mode", () => {
+    const onCommit = vi.fn();
+    const { input, unmount } = renderApp({
+      requireSelection: "clear",
+      onCommit,
+    });
+    typeInto(input, "kiwi");
+    act(() => input.blur());
+    expect(onCommit).toHaveBeenCalledWith("", null);
+    expect(input.value).toBe("");
+    unmount();
+  });
+
+  it("selects the item named by the value, ignoring case", () => {
+    const onSelect = vi.fn();
+    const { input, unmount } = renderApp({ onSelect });
+    typeInto(input, "banana");
+    act(() => input.blur());
+    expect(onSelect).toHaveBeenCalledWith("Banana", "Banana", "blur");
+    expect(input.value).toBe("Banana");
+    unmount();
+  });
+
+  it("keeps Enter from submitting a value naming no item", () => {
+    const { input, unmount } = renderApp();
+    typeInto(input, "kiwi");
+    const event = new KeyboardEvent("keydown", {
+      key: "Enter",
+      keyCode: 13,
+      bubbles: true,
+      cancelable: true,
+    });
+    act(() => {
+      input.dispatchEvent(event);
+    });
+    expect(event.defaultPrevented).toBe(true);
+    expect(input.value).toBe("apple");
+    unmount();
+  });
+
+  it("follows isItemSelectable for the validity", () => {
+    const element = (
+      value: string,
+      isItemSelectable: (item: string) => boolean
+    ) => (
+      <Autocomplete
+        items={items}
+        value={value}
+        requireSelection="revert"
+        getItemValue={(item: string) => item}
+        isItemSelectable={isItemSelectable}
+        renderItem={(item) => <div>{item}</div>}
+      />
+    );
+    const { container, rerender, unmount } = render(element("", () => true));
+    const input = container.querySelector("input");
+    rerender(element("cherry", () => true));
+    expect(input.validity.valid).toBe(true);
+    rerender(element("cherry", (item) => item !== "cherry"));
+    expect(input.validity.valid).toBe(false);
+    unmount();
+  });
+});
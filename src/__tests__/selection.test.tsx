@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { act } from "react-dom/test-utils";
+import { describe, expect, it, vi } from "vitest";
+import { Autocomplete, AutocompleteProps } from "../Autocomplete";
+import { createMemoryStorage } from "../useRecentItems";
+import { render, typeInto } from "./render";
+
+const items = ["apple", "banana", "cherry"];
+
+type Props = Partial<AutocompleteProps<string>>;
+
+function App(props: Props) {
+  const [value, setValue] = useState("");
+  return (
+    <Autocomplete
+      items={items}
+      value={value}
+      onChange={(_event, nextValue) => setValue(nextValue)}
+      onSelect={(nextValue) => setValue(nextValue)}
+      getItemValue={(item: string) => item}
+      renderItem={(item) => <div>{item}</div>}
+      {...props}
+    />
+  );
+}
+
+function renderApp(props: Props) {
+  const rendered = render(<App {...props} />);
+  const input = rendered.container.querySelector("input");
+  const getOptions = () =>
+    [...rendered.container.querySelectorAll("[role=option]")].map(
+      (option) => option.textContent
+    );
+  const clickOption = (text: string) => {
+    const option = [
+      ...rendered.container.querySelectorAll<HTMLElement>("[role=option]"),
+    ].find((node) => node.textContent === text);
+    act(() => option.click());
+  };
+  act(() => input.focus());
+  return { ...rendered, input, getOptions, clickOption };
+}
+
+describe("multiple", () => {
+  it("adds the selected item and hides it from the menu", () => {
+    const onSelectedItemsChange = vi.fn();
+    const { input, getOptions, clickOption, unmount } = renderApp({
+      multiple: true,
+      onSelect: () => undefined,
+      onSelectedItemsChange,
+    });
+    clickOption("banana");
+    expect(onSelectedItemsChange).toHaveBeenLastCalledWith(["banana"]);
+    act(() => input.click());
+    expect(getOptions()).toEqual(["apple", "cherry"]);
+    unmount();
+  });
+
+  it("adds the item created for the query", () => {
+    const onSelectedItemsChange = vi.fn();
+    const { input, clickOption, unmount } = renderApp({
+      multiple: true,
+      onCreate: (query) => query,
+      onSelectedItemsChange,
+    });
+    typeInto(input, "kiwi");
+    clickOption('Create "kiwi"');
+    expect(onSelectedItemsChange).toHaveBeenLastCalledWith(["kiwi"]);
+    unmount();
+  });
+});
+
+describe("history", () => {
+  it("suggests the items selected before in an empty input", () => {
+    const storage = createMemoryStorage();
+    const { input, getOptions, clickOption, unmount } = renderApp({
+      history: { key: "fruits", storage },
+    });
+    typeInto(input, "ch");
+    clickOption("cherry");
+    expect(input.value).toBe("cherry");
+    expect(JSON.parse(storage.getItem("fruits"))).toEqual(["cherry"]);
+
+    typeInto(input, "");
+    act(() => input.click());
+    expect(getOptions()[0]).toBe("cherry");
+    unmount();
+  });
+});
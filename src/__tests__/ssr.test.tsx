@@ -0,0 +1,62 @@
+// @vitest-environment node
+import { renderToString } from "react-dom/server";
+import { describe, expect, it } from "vitest";
+import { Autocomplete, AutocompleteProps } from "../Autocomplete";
+import { createMemoryStorage } from "../useRecentItems";
+
+const items = ["apple", "banana", "cherry"];
+
+function renderApp(props: Partial<AutocompleteProps<string>> = {}) {
+  return renderToString(
+    <Autocomplete
+      items={items}
+      getItemValue={(item: string) => item}
+      renderItem={(item) => <div>{item}</div>}
+      {...props}
+    />
+  );
+}
+
+describe("server rendering", () => {
+  it("renders without a DOM", () => {
+    expect(typeof window).toBe("undefined");
+    const html = renderApp({ value: "ban" });
+    expect(html).toContain('role="combobox"');
+    expect(html).toContain('value="ban"');
+  });
+
+  it("renders an open menu in place", () => {
+    const html = renderApp({ open: true });
+    expect(html).toContain('role="listbox"');
+    for (const item of items) expect(html).toContain(`>${item}</div>`);
+  });
+
+  it("leaves a menu rendered in a portal out", () => {
+    const html = renderApp({
+      open: true,
+      portalContainer: () => document.body,
+    });
+    expect(html).not.toContain('role="listbox"');
+    expect(html).not.toContain("aria-controls");
+  });
+
+  it("renders the hidden input with the selected item's value", () => {
+    const html = renderApp({
+      value: "cherry",
+      name: "fruit",
+      getItemFormValue: (item) => item.toUpperCase(),
+    });
+    expect(html).toMatch(/<input type="hidden" name="fruit" value="CHERRY"/);
+  });
+
+  it("leaves the recent items for the browser to read", () => {
+    const storage = createMemoryStorage();
+    storage.setItem("fruits", JSON.stringify(["banana"]));
+    const html = renderApp({
+      open: true,
+      items: [],
+      history: { key: "fruits", storage },
+    });
+    expect(html).not.toContain("banana");
+  });
+});
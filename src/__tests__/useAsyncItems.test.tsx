@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { act } from "react-dom/test-utils";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Autocomplete } from "../Autocomplete";
+import { LoadItems, useAsyncItems } from "../useAsyncItems";
+import { deferred, render, renderHook, typeInto } from "./render";
+
+const DELAY = 200;
+
+interface HookProps {
+  loadItems: LoadItems<string>;
+  query: string;
+  enabled: boolean;
+  loadKey?: string;
+}
+
+const useItems = ({ loadItems, query, enabled, loadKey }: HookProps) =>
+  useAsyncItems(loadItems, query, enabled, DELAY, loadKey);
+
+/**
+ * A `loadItems` whose requests are settled by hand, by query.
+ */
+function createLoader() {
+  const requests = new Map<
+    string,
+    ReturnType<typeof deferred<string[]>> & { signal: AbortSignal }
+  >();
+  const loadItems: LoadItems<string> = (query, { signal }) => {
+    const request = { ...deferred<string[]>(), signal };
+    requests.set(query, request);
+    return request.promise;
+  };
+  return { requests, loadItems };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("useAsyncItems", () => {
+  it("waits for the query to settle for the delay", () => {
+    const { requests, loadItems } = createLoader();
+    const hook = renderHook(useItems, { loadItems, query: "a", enabled: true });
+    act(() => {
+      vi.advanceTimersByTime(DELAY - 1);
+    });
+    hook.rerender({ loadItems, query: "ab", enabled: true });
+    act(() => {
+      vi.advanceTimersByTime(DELAY - 1);
+    });
+    expect(requests.size).toBe(0);
+    expect(hook.result.current.loading).toBe(true);
+    act(() => {
+      vi.advanceTimersByTime(1);
+    });
+    expect([...requests.keys()]).toEqual(["ab"]);
+    hook.unmount();
+  });
+
+  it("discards the response to a stale query", async () => {
+    const { requests, loadItems } = createLoader();
+    const hook = renderHook(useItems, { loadItems, query: "a", enabled: true });
+    act(() => {
+      vi.advanceTimersByTime(DELAY);
+    });
+    hook.rerender({ loadItems, query: "b", enabled: true });
+    act(() => {
+      vi.advanceTimersByTime(DELAY);
+    });
+    await act(async () => requests.get("b").resolve(["b1", "b2"]));
+    await act(async () => requests.get("a").resolve(["a1"]));
+    expect(hook.result.current.items).toEqual(["b1", "b2"]);
+    expect(hook.result.current.loading).toBe(false);
+    hook.unmount();
+  });
+
+  it("aborts the request when the query changes", () => {
+    const { requests, loadItems } = createLoader();
+    const hook = renderHook(useItems, { loadItems, query: "a", enabled: true });
+    act(() => {
+      vi.advanceTimersByTime(DELAY);
+    });
+    expect(requests.get("a").signal.aborted).toBe(false);
+    hook.rerender({ loadItems, query: "b", enabled: true });
+    expect(requests.get("a").signal.aborted).toBe(true);
+    hook.unmount();
+  });
+
+  it("aborts the request when the menu closes", () => {
+    const { requests, loadItems } = createLoader();
+    const hook = renderHook(useItems, { loadItems, query: "a", enabled: true });
+    act(() => {
+      vi.advanceTimersByTime(DELAY);
+    });
+    hook.rerender({ loadItems, query: "a", enabled: false });
+    expect(requests.get("a").signal.aborted).toBe(true);
+    expect(hook.result.current.loading).toBe(false);
+    hook.unmount();
+  });
+
+  it("keeps the reason of a failure", async () => {
+    const { requests, loadItems } = createLoader();
+    const hook = renderHook(useItems, { loadItems, query: "a", enabled: true });
+    act(() => {
+      vi.advanceTimersByTime(DELAY);
+    });
+    const error = new Error("Offline");
+    await act(async () => requests.get("a").reject(error));
+    expect(hook.result.current.error).toBe(error);
+    expect(hook.result.current.loading).toBe(false);
+    hook.unmount();
+  });
+
+  it("keeps the error thrown by loadItems", async () => {
+    const error = new Error("Invalid query");
+    const loadItems: LoadItems<string> = () => {
+      throw error;
+    };
+    const hook = renderHook(useItems, { loadItems, query: "a", enabled: true });
+    await act(async () => {
+      vi.advanceTimersByTime(DELAY);
+    });
+    expect(hook.result.current.error).toBe(error);
+    expect(hook.result.current.loading).toBe(false);
+    hook.unmount();
+  });
+
+  it("loads the items again when the key changes", async () => {
+    const { requests, loadItems } = createLoader();
+    const props = { loadItems, query: "a", enabled: true, loadKey: "fruits" };
+    const hook = renderHook(useItems, props);
+    act(() => {
+      vi.advanceTimersByTime(DELAY);
+    });
+    await act(async () => requests.get("a").resolve(["apple"]));
+    requests.clear();
+
+    hook.rerender({ ...props, loadItems: createLoader().loadItems });
+    act(() => {
+      vi.advanceTimersByTime(DELAY);
+    });
+    expect(hook.result.current.loading).toBe(false);
+
+    hook.rerender({ ...props, loadKey: "vegetables" });
+    expect(hook.result.current.loading).toBe(true);
+    act(() => {
+      vi.advanceTimersByTime(DELAY);
+    });
+    await act(async () => requests.get("a").resolve(["asparagus"]));
+    expect(hook.result.current.items).toEqual(["asparagus"]);
+    hook.unmount();
+  });
+});
+
+describe("Autocomplete with loadItems", () => {
+  function App({ loadItems }: { loadItems: LoadItems<string> }) {
+    const [value, setValue] = useState("");
+    return (
+      <Autocomplete
+        value={value}
+        onChange={(_event, nextValue) => setValue(nextValue)}
+        loadItems={loadItems}
+        getItemValue={(item: string) => item}
+        renderItem={(item) => <div>{item}</div>}
+        renderLoading={() => <div>[loading]</div>}
+        renderError={() => <div>[failed]</div>}
+        renderEmpty={() => <div>[empty]</div>}
+      />
+    );
+  }
+
+  it("renders the loading, empty, error and loaded states", async () => {
+    const { requests, loadItems } = createLoader();
+    const { container, unmount } = render(<App loadItems={loadItems} />);
+    const input = container.querySelector("input");
+    act(() => input.focus());
+    typeInto(input, "x");
+    expect(container.textContent).toContain("[loading]");
+
+    act(() => {
+      vi.advanceTimersByTime(DELAY);
+    });
+    await act(async () => requests.get("x").resolve([]));
+    expect(container.textContent).toContain("[empty]");
+
+    typeInto(input, "xy");
+    act(() => {
+      vi.advanceTimersByTime(DELAY);
+    });
+    await act(async () => requests.get("xy").reject(new Error("Offline")));
+    expect(container.textContent).toContain("[failed]");
+
+    typeInto(input, "xyz");
+    act(() => {
+      vi.advanceTimersByTime(DELAY);
+    });
+    await act(async () => requests.get("xyz").resolve(["xyz1", "xyz2"]));
+    const options = container.querySelectorAll("[role=option]");
+    expect([...options].map((option) => option.textContent)).toEqual([
+      "xyz1",
+      "xyz2",
+    ]);
+    expect(container.textContent).not.toContain("[loading]");
+    unmount();
+  });
+});
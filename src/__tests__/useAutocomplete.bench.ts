@@ -0,0 +1,51 @@
+import { afterAll, bench, describe } from "vitest";
+import { useAutocomplete, UseAutocompleteProps } from "../useAutocomplete";
+import { renderHook } from "./render";
+
+interface Item {
+  id: number;
+  label: string;
+}
+
+const ITEM_COUNT = 10_000;
+
+const words = ["apple", "banana", "cherry", "grape", "lemon", "mango", "peach"];
+const items: Item[] = Array.from({ length: ITEM_COUNT }, (_, id) => ({
+  id,
+  label: `${words[id % words.length]} ${words[(id * 7) % words.length]} ${id}`,
+}));
+const queries = ["a", "an", "ch", "pe", "mango 1", "lemon grape"];
+
+const baseProps: UseAutocompleteProps<Item> = {
+  items,
+  value: "",
+  getItemValue: (item) => item.label,
+  match: "substring",
+  sortByScore: true,
+  sortItems: (a, b) => a.label.localeCompare(b.label),
+  maxItems: 50,
+  requireSelection: "revert",
+  name: "fruit",
+};
+
+function renderAutocomplete() {
+  const hook = renderHook(useAutocomplete, baseProps);
+  afterAll(hook.unmount);
+  return hook;
+}
+
+describe(`${ITEM_COUNT} items`, () => {
+  const typing = renderAutocomplete();
+  let query = 0;
+  bench("filter, sort and maxItems for a new value", () => {
+    query = (query + 1) % queries.length;
+    typing.rerender({ ...baseProps, value: queries[query] });
+  });
+
+  const idle = renderAutocomplete();
+  const idleProps = { ...baseProps, value: "an" };
+  idle.rerender(idleProps);
+  bench("render again with the same items and value", () => {
+    idle.rerender({ ...idleProps });
+  });
+});
@@ -0,0 +1,43 @@
+import { act } from "react-dom/test-utils";
+import { describe, expect, it, vi } from "vitest";
+import { useAutocomplete, UseAutocompleteProps } from "../useAutocomplete";
+import { deferred, renderHook } from "./render";
+
+const baseProps: UseAutocompleteProps<string> = {
+  items: ["apple", "banana"],
+  value: "cherry",
+  getItemValue: (item) => item,
+  match: "prefix",
+  hasMore: true,
+};
+
+describe("onLoadMore", () => {
+  it("waits for its promise, whatever the filter shows", async () => {
+    const page = deferred<void>();
+    const onLoadMore = vi.fn(() => page.promise);
+    const props = { ...baseProps, onLoadMore };
+    const hook = renderHook(useAutocomplete, props);
+    act(() => hook.result.current.loadMore());
+    act(() => hook.result.current.loadMore());
+    expect(onLoadMore).toHaveBeenCalledTimes(1);
+    expect(hook.result.current.loadingMore).toBe(true);
+
+    // A page without a match for the value
+    hook.rerender({ ...props, items: ["apple", "banana", "date"] });
+    await act(async () => page.resolve());
+    expect(hook.result.current.loadingMore).toBe(false);
+    act(() => hook.result.current.loadMore());
+    expect(onLoadMore).toHaveBeenCalledTimes(2);
+    hook.unmount();
+  });
+
+  it("has nothing pending when it returns nothing", () => {
+    const onLoadMore = vi.fn();
+    const hook = renderHook(useAutocomplete, { ...baseProps, onLoadMore });
+    act(() => hook.result.current.loadMore());
+    expect(hook.result.current.loadingMore).toBe(false);
+    act(() => hook.result.current.loadMore());
+    expect(onLoadMore).toHaveBeenCalledTimes(2);
+    hook.unmount();
+  });
+});
@@ -0,0 +1,50 @@
+import { act } from "react-dom/test-utils";
+import { describe, expect, it } from "vitest";
+import { useVirtualItems } from "../useVirtualItems";
+import { renderHook } from "./render";
+
+interface HookProps {
+  items: object[];
+  sourceItems: object[];
+}
+
+const menuRef = { current: null };
+const useItems = ({ items, sourceItems }: HookProps) =>
+  useVirtualItems(items, { estimatedItemHeight: 30 }, menuRef, sourceItems);
+
+/**
+ * Stands for an item rendered `height` pixels high.
+ */
+const nodeOfHeight = (height: number) =>
+  ({ getBoundingClientRect: () => ({ height }) } as HTMLElement);
+
+describe("useVirtualItems", () => {
+  it("keeps the heights of the items filtered out", () => {
+    const a = {};
+    const b = {};
+    const hook = renderHook(useItems, { items: [a, b], sourceItems: [a, b] });
+    act(() => {
+      hook.result.current.measure(a, nodeOfHeight(50));
+      hook.result.current.measure(b, nodeOfHeight(50));
+    });
+    expect(hook.result.current.totalSize).toBe(100);
+    hook.rerender({ items: [a], sourceItems: [a, b] });
+    hook.rerender({ items: [a, b], sourceItems: [a, b] });
+    expect(hook.result.current.totalSize).toBe(100);
+    hook.unmount();
+  });
+
+  it("forgets the heights of the items which are gone", () => {
+    const a = {};
+    const b = {};
+    const hook = renderHook(useItems, { items: [a, b], sourceItems: [a, b] });
+    act(() => {
+      hook.result.current.measure(a, nodeOfHeight(50));
+      hook.result.current.measure(b, nodeOfHeight(50));
+    });
+    hook.rerender({ items: [a], sourceItems: [a] });
+    hook.rerender({ items: [a, b], sourceItems: [a, b] });
+    expect(hook.result.current.totalSize).toBe(80);
+    hook.unmount();
+  });
+});
@@ -0,0 +1,43 @@
+import React from "react";
+
+/**
+ * Message templates read out by the polite live region rendered next to the
+ * input. Override any of them through the `announcements` prop, e.g. to
+ * localize them.
+ */
+export interface AutocompleteAnnouncements<ItemT = unknown> {
+  /**
+   * Announced when the menu opens or the number of rendered items changes.
+   */
+  results: (count: number) => string;
+  /**
+   * Announced instead of `results` when no item is rendered.
+   */
+  noResults: () => string;
+  /**
+   * Announced when an item is selected.
+   */
+  selected: (value: string, item: ItemT) => string;
+}
+
+export const defaultAnnouncements: AutocompleteAnnouncements = {
+  results: (count) =>
+    `${count} ${count === 1 ? "result" : "results"} available`,
+  noResults: () => "No results",
+  selected: (value) => `Selected: ${value}`,
+};
+
+/**
+ * Hides the live region visually while keeping it in the accessibility tree.
+ */
+export const visuallyHiddenStyle: React.CSSProperties = {
+  position: "absolute",
+  width: 1,
+  height: 1,
+  padding: 0,
+  margin: -1,
+  overflow: "hidden",
+  clip: "rect(0, 0, 0, 0)",
+  whiteSpace: "nowrap",
+  border: 0,
+};
@@ -0,0 +1,45 @@
+/**
+ * Class names `Autocomplete` adds to the elements it renders, on top of the
+ * ones they already have.
+ */
+export interface AutocompleteClassNames {
+  wrapper?: string;
+  input?: string;
+  menu?: string;
+  item?: string;
+  /**
+   * Added to the highlighted item, together with `item`.
+   */
+  highlightedItem?: string;
+  /**
+   * Added to the items `isItemSelectable` rejects, together with `item`.
+   */
+  disabledItem?: string;
+  /**
+   * Added to the element returned by `renderEmpty`.
+   */
+  empty?: string;
+  /**
+   * Added to the elements returned by `renderLoading` and
+   * `renderLoadingMore`.
+   */
+  loading?: string;
+}
+
+/**
+ * The class names `react-rac/styles.css` applies the default look to.
+ */
+export const stylesheetClassNames: AutocompleteClassNames = {
+  wrapper: "rac-wrapper",
+  input: "rac-input",
+  menu: "rac-menu",
+  item: "rac-item",
+  empty: "rac-empty",
+  loading: "rac-loading",
+};
+
+export function joinClassNames(
+  ...classNames: Array<string | false | null | undefined>
+) {
+  return classNames.filter(Boolean).join(" ") || undefined;
+}
@@ -0,0 +1,25 @@
+// Only extracted to `react-rac/styles.css` by the build, not applied
+import "./styles.css";
+
+export * from "./Autocomplete";
+export * from "./useAutocomplete";
+export * from "./keyDownHandlers";
+export * from "./announcements";
+export { stylesheetClassNames } from "./classNames";
+export type { AutocompleteClassNames } from "./classNames";
+export { createMatcher } from "./matching";
+export type {
+  Matcher,
+  MatcherOptions,
+  MatchRange,
+  MatchResult,
+  MatchStrategy,
+} from "./matching";
+export type { LoadItems } from "./useAsyncItems";
+export type { LoadMore } from "./useLoadMore";
+export type { CreateItemHandler } from "./useCreateItem";
+export { createMemoryStorage } from "./useRecentItems";
+export type { HistoryOptions, HistoryStorage } from "./useRecentItems";
+export type { VirtualItem, VirtualizeOptions } from "./useVirtualItems";
+export type { Mention } from "./mentions";
+export type { MenuPlacement } from "./positioning";
@@ -0,0 +1,275 @@
+import React from "react";
+import type {
+  AutocompleteChangeType,
+  AutocompleteState,
+  StateUpdate,
+  UseAutocompleteProps,
+} from "./useAutocomplete";
+import { isCreateItem } from "./useCreateItem";
+
+/**
+ * The object `keyDownHandlers` are invoked with as `this`. It mirrors the
+ * parts of the old class instance the handlers used to rely on.
+ */
+export interface AutocompleteContext<ItemT = unknown> {
+  props: UseAutocompleteProps<ItemT>;
+  state: AutocompleteState;
+  /**
+   * Works like `Component#setState`: `update` is merged into the state and
+   * `callback` runs once the change has been committed. Its `type` is passed
+   * on to `onHighlightedIndexChange`/`onMenuVisibilityChange`.
+   */
+  setState(update: StateUpdate<ItemT>, callback?: () => void): void;
+  getFilteredItems(): ItemT[];
+  isOpen(): boolean;
+  setIgnoreBlur(ignore: boolean): void;
+  /**
+   * In `requireSelection` mode, selects the item the input's value names or
+   * replaces the value if there is none.
+   */
+  checkSelection(
+    event: React.SyntheticEvent,
+    type: AutocompleteChangeType
+  ): void;
+  /**
+   * With `hasMore`, requests the next page of items.
+   */
+  loadMore(): void;
+  /**
+   * How many items fit in the dropdown menu at once.
+   */
+  getPageSize(): number;
+  inputRef: React.MutableRefObject<HTMLInputElement | null>;
+}
+
+/**
+ * Returns the first selectable item found going from `start` in the direction
+ * of `step`, continuing from the other end of the list when `wrap` is set.
+ */
+function findSelectableIndex(
+  context: AutocompleteContext,
+  start: number,
+  step: 1 | -1,
+  wrap: boolean
+) {
+  const items = context.getFilteredItems();
+  for (let i = 0; i < items.length; i++) {
+    let index = start + step * i;
+    if (wrap) index = ((index % items.length) + items.length) % items.length;
+    else if (index < 0 || index >= items.length) return null;
+    if (context.props.isItemSelectable(items[index])) return index;
+  }
+  return null;
+}
+
+export type KeyDownHandler = (
+  this: AutocompleteContext,
+  event: React.KeyboardEvent<HTMLInputElement>
+) => void;
+
+export const keyDownHandlers: Record<string, KeyDownHandler> = {
+  ArrowDown(event) {
+    event.preventDefault();
+    const items = this.getFilteredItems();
+    const { highlightedIndex } = this.state;
+    const start = highlightedIndex === null ? 0 : highlightedIndex + 1;
+    // Rather than wrapping around, wait for the next page at the end
+    if (
+      this.isOpen() &&
+      this.props.hasMore &&
+      findSelectableIndex(this, start, 1, false) === null
+    ) {
+      this.loadMore();
+      return;
+    }
+    if (!items.length) return;
+    const index = findSelectableIndex(this, start, 1, this.props.wrapAround);
+    if (index !== null && index !== highlightedIndex) {
+      this.setState({
+        highlightedIndex: index,
+        isOpen: true,
+        type: "keyboard-arrow",
+      });
+    }
+  },
+
+  ArrowUp(event) {
+    event.preventDefault();
+    const items = this.getFilteredItems();
+    if (!items.length) return;
+    const { highlightedIndex } = this.state;
+    const index = findSelectableIndex(
+      this,
+      highlightedIndex === null ? items.length - 1 : highlightedIndex - 1,
+      -1,
+      this.props.wrapAround
+    );
+    if (index !== null && index !== highlightedIndex) {
+      this.setState({
+        highlightedIndex: index,
+        isOpen: true,
+        type: "keyboard-arrow",
+      });
+    }
+  },
+
+  Home(event) {
+    // Leave the caret alone unless the user is going through the items
+    if (!this.isOpen() || this.state.highlightedIndex === null) return;
+    event.preventDefault();
+    const index = findSelectableIndex(this, 0, 1, false);
+    if (index !== null) {
+      this.setState({ highlightedIndex: index, type: "keyboard-home-end" });
+    }
+  },
+
+  End(event) {
+    if (!this.isOpen() || this.state.highlightedIndex === null) return;
+    event.preventDefault();
+    const index = findSelectableIndex(
+      this,
+      this.getFilteredItems().length - 1,
+      -1,
+      false
+    );
+    if (index !== null) {
+      this.setState({ highlightedIndex: index, type: "keyboard-home-end" });
+    }
+  },
+
+  PageDown(event) {
+    if (!this.isOpen()) return;
+    event.preventDefault();
+    const items = this.getFilteredItems();
+    const { highlightedIndex } = this.state;
+    const target = Math.min(
+      items.length - 1,
+      (highlightedIndex === null ? -1 : highlightedIndex) + this.getPageSize()
+    );
+    const index =
+      findSelectableIndex(this, target, 1, false) ??
+      findSelectableIndex(this, target, -1, false);
+    if (index !== null) {
+      this.setState({ highlightedIndex: index, type: "keyboard-page" });
+    }
+  },
+
+  PageUp(event) {
+    if (!this.isOpen()) return;
+    event.preventDefault();
+    const items = this.getFilteredItems();
+    const { highlightedIndex } = this.state;
+    const target = Math.max(
+      0,
+      (highlightedIndex === null ? items.length : highlightedIndex) -
+        this.getPageSize()
+    );
+    const index =
+      findSelectableIndex(this, target, -1, false) ??
+      findSelectableIndex(this, target, 1, false);
+    if (index !== null) {
+      this.setState({ highlightedIndex: index, type: "keyboard-page" });
+    }
+  },
+
+  Enter(event) {
+    // Key code 229 is used for selecting items from character selectors (Pinyin, Kana, etc)
+    if (event.keyCode !== 13) return;
+    // In case the user is currently hovering over the menu
+    this.setIgnoreBlur(false);
+    if (!this.isOpen()) {
+      // menu is closed so there is no selection to accept -> only check the value
+      this.checkSelection(event, "keyboard-enter");
+      return;
+    } else if (this.state.highlightedIndex == null) {
+      // input has focus but no menu item is selected + enter is hit -> close the menu, highlight whatever's in input
+      this.checkSelection(event, "keyboard-enter");
+      this.setState(
+        {
+          isOpen: false,
+          type: "keyboard-enter",
+        },
+        () => {
+          // Selecting all the text would get in the way of editing it
+          if (!this.props.mentionTriggers) this.inputRef.current.select();
+        }
+      );
+    } else {
+      // text entered + menu item has been highlighted + enter is hit -> update value to that of selected menu item, close the menu
+      event.preventDefault();
+      const item = this.getFilteredItems()[this.state.highlightedIndex];
+      const value = this.props.getItemValue(item);
+      // The menu is closed once the item has been created
+      if (isCreateItem(item)) {
+        this.props.onSelect(value, item, "keyboard-enter");
+        return;
+      }
+      this.setState(
+        {
+          isOpen: false,
+          highlightedIndex: null,
+          type: "keyboard-enter",
+        },
+        () => {
+          //this.inputRef.current.focus() // TODO: file issue
+          this.inputRef.current.setSelectionRange(value.length, value.length);
+          this.props.onSelect(value, item, "keyboard-enter");
+        }
+      );
+    }
+  },
+
+  Escape() {
+    // In case the user is currently hovering over the menu
+    this.setIgnoreBlur(false);
+    this.setState({
+      highlightedIndex: null,
+      isOpen: false,
+      type: "escape",
+    });
+  },
+
+  Tab() {
+    // In case the user is currently hovering over the menu
+    this.setIgnoreBlur(false);
+  },
+};
+
+/**
+ * What a `keyBindings` entry can do to the autocomplete it belongs to.
+ */
+export interface AutocompleteActions<ItemT = unknown> {
+  isOpen: boolean;
+  highlightedIndex: number | null;
+  /**
+   * The items displayed in the dropdown menu, in order.
+   */
+  items: ItemT[];
+  open(): void;
+  /**
+   * Closes the dropdown menu and clears the highlight.
+   */
+  close(): void;
+  /**
+   * Highlights `items[index]`, opening the dropdown menu if needed. `null`
+   * clears the highlight.
+   */
+  highlight(index: number | null): void;
+  /**
+   * Selects `items[index]`, by default the highlighted item, as if it had
+   * been clicked.
+   */
+  select(index?: number): void;
+  /**
+   * Runs the entry of `keyDownHandlers` for the key, if there is one.
+   */
+  runDefault(): void;
+}
+
+/**
+ * A per-instance key handler, see the `keyBindings` prop.
+ */
+export type KeyBinding<ItemT = unknown> = (
+  event: React.KeyboardEvent<HTMLElement>,
+  actions: AutocompleteActions<ItemT>
+) => void;
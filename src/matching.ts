@@ -0,0 +1,187 @@
+/**
+ * `[start, end)` indices of a matched part of an item's value.
+ */
+export type MatchRange = [start: number, end: number];
+
+export interface MatchResult {
+  /**
+   * How well the value matches, between 0 and 1. Only comparable between
+   * results of the same matcher.
+   */
+  score: number;
+  /**
+   * The parts of the value which match the query, in order and without
+   * overlaps. Empty when the query is.
+   */
+  ranges: MatchRange[];
+}
+
+/**
+ * Matches `text` (an item's value) against `query` (the input's value).
+ * Returns `null` when the item should not be displayed.
+ */
+export type Matcher = (text: string, query: string) => MatchResult | null;
+
+export type MatchStrategy = "prefix" | "substring" | "word-start" | "fuzzy";
+
+export interface MatcherOptions {
+  /**
+   * Whether "a" and "A" should be told apart.
+   */
+  caseSensitive?: boolean;
+  /**
+   * Whether "e" should match "é" and other letters with diacritics.
+   */
+  ignoreDiacritics?: boolean;
+}
+
+interface FoldedText {
+  text: string;
+  // Original index of the first and past the last UTF-16 unit of the
+  // character each unit of `text` comes from
+  starts: number[];
+  ends: number[];
+}
+
+const DIACRITICS_RE = /\p{M}/gu;
+const WORD_CHARACTER_RE = /[\p{L}\p{N}]/u;
+
+function fold(text: string, options: MatcherOptions): FoldedText {
+  const folded: FoldedText = { text: "", starts: [], ends: [] };
+  let index = 0;
+  for (const character of text) {
+    let result = character;
+    if (options.ignoreDiacritics) {
+      result = result.normalize("NFD").replace(DIACRITICS_RE, "");
+    }
+    if (!options.caseSensitive) result = result.toLowerCase();
+    // A diacritic dropped on its own belongs to the character before it
+    if (result === "") {
+      const { ends } = folded;
+      for (let i = ends.length - 1; i >= 0 && ends[i] === index; i--) {
+        ends[i] += character.length;
+      }
+    }
+    for (let i = 0; i < result.length; i++) {
+      folded.starts.push(index);
+      folded.ends.push(index + character.length);
+    }
+    folded.text += result;
+    index += character.length;
+  }
+  return folded;
+}
+
+function isWordStart(text: string, index: number) {
+  return index === 0 || !WORD_CHARACTER_RE.test(text[index - 1]);
+}
+
+/**
+ * Returns the folded ranges `[start, end)` matched in `text`, with a score.
+ */
+type FoldedMatcher = (
+  text: string,
+  query: string
+) => { score: number; ranges: MatchRange[] } | null;
+
+const strategies: Record<MatchStrategy, FoldedMatcher> = {
+  prefix(text, query) {
+    if (!text.startsWith(query)) return null;
+    return {
+      score: 0.5 + (0.5 * query.length) / text.length,
+      ranges: [[0, query.length]],
+    };
+  },
+
+  substring(text, query) {
+    const index = text.indexOf(query);
+    if (index === -1) return null;
+    if (index === 0) return strategies.prefix(text, query);
+    return {
+      score: (0.5 * query.length) / text.length,
+      ranges: [[index, index + query.length]],
+    };
+  },
+
+  "word-start"(text, query) {
+    let index = text.indexOf(query);
+    while (index !== -1 && !isWordStart(text, index)) {
+      index = text.indexOf(query, index + 1);
+    }
+    if (index === -1) return null;
+    if (index === 0) return strategies.prefix(text, query);
+    return {
+      score: 0.25 + (0.5 * query.length) / text.length,
+      ranges: [[index, index + query.length]],
+    };
+  },
+
+  fuzzy(text, query) {
+    const positions: number[] = [];
+    for (let i = 0; i < text.length && positions.length < query.length; i++) {
+      if (text[i] === query[positions.length]) positions.push(i);
+    }
+    if (positions.length < query.length) return null;
+    // Consecutive characters and characters starting a word are worth more
+    let points = 0;
+    const ranges: MatchRange[] = [];
+    positions.forEach((position, i) => {
+      points += 1;
+      if (isWordStart(text, position)) points += 1;
+      if (i > 0 && position === positions[i - 1] + 1) {
+        points += 2;
+        ranges[ranges.length - 1][1] = position + 1;
+      } else {
+        ranges.push([position, position + 1]);
+      }
+    });
+    return {
+      score:
+        (0.75 * points) / (4 * query.length) +
+        (0.25 * query.length) / text.length,
+      ranges,
+    };
+  },
+};
+
+/**
+ * Creates a matcher for the `match` prop. Case and diacritics are ignored
+ * unless `options` says otherwise; the ranges it returns always refer to the
+ * original text.
+ */
+export function createMatcher(
+  strategy: MatchStrategy,
+  { caseSensitive = false, ignoreDiacritics = true }: MatcherOptions = {}
+): Matcher {
+  const options = { caseSensitive, ignoreDiacritics };
+  const matchFolded = strategies[strategy];
+  return (text, query) => {
+    if (query === "") return { score: 0, ranges: [] };
+    const foldedText = fold(text, options);
+    const foldedQuery = fold(query, options).text;
+    const result = matchFolded(foldedText.text, foldedQuery);
+    if (!result) return null;
+    const ranges: MatchRange[] = [];
+    for (const [start, end] of result.ranges) {
+      const range: MatchRange = [
+        foldedText.starts[start],
+        foldedText.ends[end - 1],
+      ];
+      // Characters folded into several units may now touch or overlap
+      const last = ranges[ranges.length - 1];
+      if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+      else ranges.push(range);
+    }
+    return { score: result.score, ranges };
+  };
+}
+
+const defaultMatchers = new Map<MatchStrategy, Matcher>();
+
+export function resolveMatcher(match: MatchStrategy | Matcher): Matcher {
+  if (typeof match === "function") return match;
+  if (!defaultMatchers.has(match)) {
+    defaultMatchers.set(match, createMatcher(match));
+  }
+  return defaultMatchers.get(match);
+}
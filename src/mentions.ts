@@ -0,0 +1,99 @@
+import React, { useRef, useState } from "react";
+import { useIsomorphicLayoutEffect } from "./utils";
+
+/**
+ * A trigger character and the text typed after it, up to the caret.
+ */
+export interface Mention {
+  trigger: string;
+  /**
+   * The text between the trigger and the caret, which the items are
+   * filtered with.
+   */
+  query: string;
+  /**
+   * `[start, end)` indices of the mention, trigger included, in the text.
+   */
+  start: number;
+  end: number;
+}
+
+const WHITESPACE_RE = /\s/;
+
+/**
+ * Returns the mention the caret is in, if any. A mention starts with one of
+ * `triggers` at the start of `text` or after whitespace, and contains no
+ * whitespace.
+ */
+export function findMention(
+  text: string,
+  caret: number,
+  triggers: string[]
+): Mention | null {
+  const end = Math.min(caret, text.length);
+  for (let start = end - 1; start >= 0; start--) {
+    const character = text[start];
+    if (WHITESPACE_RE.test(character)) return null;
+    if (
+      triggers.includes(character) &&
+      (start === 0 || WHITESPACE_RE.test(text[start - 1]))
+    ) {
+      return {
+        trigger: character,
+        query: text.slice(start + 1, end),
+        start,
+        end,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Replaces `mention` in `text` with its trigger followed by `value` and a
+ * space, unless one already follows. Returns the new text and where the
+ * caret goes, past the space.
+ */
+export function replaceMention(text: string, mention: Mention, value: string) {
+  const before = text.slice(0, mention.start) + mention.trigger + value;
+  const after = text.slice(mention.end);
+  return {
+    text: before + (WHITESPACE_RE.test(after.charAt(0)) ? "" : " ") + after,
+    caret: before.length + 1,
+  };
+}
+
+/**
+ * Follows the caret in `text`, the input's value, to find the mention it is
+ * in with `triggers`. `replace` returns `text` with the mention replaced by
+ * a value, and moves the caret past it once the input displays that text.
+ */
+export function useMention(
+  text: string,
+  triggers: string[] | undefined,
+  inputRef: React.MutableRefObject<HTMLInputElement | null>
+) {
+  const [caret, setCaret] = useState<number | null>(null);
+  const mention =
+    triggers && caret !== null ? findMention(text, caret, triggers) : null;
+  // The text to give the input, and where to put the caret, once the mention
+  // has been replaced
+  const pendingRef = useRef<{ text: string; caret: number } | null>(null);
+
+  useIsomorphicLayoutEffect(() => {
+    const pending = pendingRef.current;
+    const input = inputRef.current;
+    if (!pending || !input || input.value !== pending.text) return;
+    pendingRef.current = null;
+    input.setSelectionRange(pending.caret, pending.caret);
+    setCaret(pending.caret);
+  });
+
+  const replace = (value: string) => {
+    const replaced = replaceMention(text, mention, value);
+    pendingRef.current = replaced;
+    return replaced.text;
+  };
+
+  return { mention, setCaret, replace };
+}
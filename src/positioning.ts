@@ -0,0 +1,174 @@
+export type MenuPlacement =
+  | "bottom-start"
+  | "bottom-end"
+  | "top-start"
+  | "top-end";
+
+export interface MenuPosition {
+  /**
+   * Where the menu ended up, which differs from the requested placement when
+   * it has been flipped.
+   */
+  placement: MenuPlacement;
+  top?: number;
+  bottom?: number;
+  left: number;
+  width: number;
+  maxHeight: number;
+}
+
+/**
+ * Minimum distance kept between the menu and the edges of the viewport.
+ */
+const VIEWPORT_PADDING = 8;
+
+function getMargins(node: HTMLElement) {
+  const computedStyle = window.getComputedStyle(node);
+  return {
+    top: parseInt(computedStyle.marginTop, 10) || 0,
+    bottom: parseInt(computedStyle.marginBottom, 10) || 0,
+    left: parseInt(computedStyle.marginLeft, 10) || 0,
+    right: parseInt(computedStyle.marginRight, 10) || 0,
+  };
+}
+
+// The styles deciding where the text of a field wraps
+const MIRRORED_PROPERTIES = [
+  "boxSizing",
+  "width",
+  "height",
+  "overflowX",
+  "overflowY",
+  "borderTopWidth",
+  "borderRightWidth",
+  "borderBottomWidth",
+  "borderLeftWidth",
+  "borderStyle",
+  "paddingTop",
+  "paddingRight",
+  "paddingBottom",
+  "paddingLeft",
+  "fontStyle",
+  "fontVariant",
+  "fontWeight",
+  "fontStretch",
+  "fontSize",
+  "lineHeight",
+  "fontFamily",
+  "textAlign",
+  "textTransform",
+  "textIndent",
+  "letterSpacing",
+  "wordSpacing",
+  "tabSize",
+] as const;
+
+/**
+ * Returns the viewport rectangle of the line of text at `position` in
+ * `field`, starting where that character is. Fields don't expose where
+ * their text is displayed, so it is measured in a hidden copy of the field.
+ */
+function getCaretRect(
+  field: HTMLElement & { value: string },
+  position: number
+) {
+  const document = field.ownerDocument;
+  const computedStyle = window.getComputedStyle(field);
+  const mirror = document.createElement("div");
+  for (const property of MIRRORED_PROPERTIES) {
+    mirror.style[property] = computedStyle[property];
+  }
+  mirror.style.position = "absolute";
+  mirror.style.top = "0";
+  mirror.style.left = "0";
+  mirror.style.visibility = "hidden";
+  mirror.style.whiteSpace = field.nodeName === "TEXTAREA" ? "pre-wrap" : "pre";
+  mirror.style.overflowWrap = "break-word";
+  mirror.textContent = field.value.slice(0, position);
+  const marker = document.createElement("span");
+  // Something must be measured even at the end of the text
+  marker.textContent = field.value.slice(position) || ".";
+  mirror.appendChild(marker);
+  document.body.appendChild(mirror);
+  const fieldRect = field.getBoundingClientRect();
+  const top =
+    fieldRect.top +
+    marker.offsetTop +
+    (parseInt(computedStyle.borderTopWidth, 10) || 0) -
+    field.scrollTop;
+  const left =
+    fieldRect.left +
+    marker.offsetLeft +
+    (parseInt(computedStyle.borderLeftWidth, 10) || 0) -
+    field.scrollLeft;
+  const height =
+    parseInt(computedStyle.lineHeight, 10) ||
+    marker.getBoundingClientRect().height;
+  document.body.removeChild(mirror);
+  return { top, bottom: top + height, left, width: 0 };
+}
+
+/**
+ * Computes the `position: fixed` coordinates of the menu next to `input`.
+ * When `flip` is set and `menu`'s content does not fit on the requested side
+ * of the input but there is more room on the other one, the menu is moved
+ * there. The menu is kept inside the viewport horizontally and `maxHeight`
+ * is the room left on its side of the input. Menus above the input are
+ * anchored by their `bottom`, so they stay attached to it while their
+ * content changes. With `caret`, the menu is displayed next to the line of
+ * text at that position instead of the whole input.
+ */
+export function computeMenuPosition(
+  input: HTMLElement,
+  menu: HTMLElement | null,
+  placement: MenuPlacement,
+  flip: boolean,
+  caret?: number
+): MenuPosition {
+  const atCaret = caret !== undefined && "value" in input;
+  const rect = atCaret
+    ? getCaretRect(input as HTMLElement & { value: string }, caret)
+    : input.getBoundingClientRect();
+  const margins = atCaret
+    ? { top: 0, bottom: 0, left: 0, right: 0 }
+    : getMargins(input);
+  const { documentElement } = input.ownerDocument;
+  const viewportWidth = documentElement.clientWidth || window.innerWidth;
+  const viewportHeight = documentElement.clientHeight || window.innerHeight;
+
+  const [side, align] = placement.split("-");
+  const spaceBelow =
+    viewportHeight - (rect.bottom + margins.bottom) - VIEWPORT_PADDING;
+  const spaceAbove = rect.top - margins.top - VIEWPORT_PADDING;
+  let actualSide = side;
+  if (flip && menu) {
+    const preferred = side === "bottom" ? spaceBelow : spaceAbove;
+    const opposite = side === "bottom" ? spaceAbove : spaceBelow;
+    if (menu.scrollHeight > preferred && opposite > preferred) {
+      actualSide = side === "bottom" ? "top" : "bottom";
+    }
+  }
+
+  const width = rect.width + margins.left + margins.right;
+  const menuWidth = Math.max(menu ? menu.offsetWidth : 0, width);
+  let left = rect.left + margins.left;
+  if (align === "end") left += width - menuWidth;
+  left = Math.min(left, viewportWidth - VIEWPORT_PADDING - menuWidth);
+  left = Math.max(left, VIEWPORT_PADDING);
+
+  return actualSide === "bottom"
+    ? {
+        placement: `bottom-${align}` as MenuPlacement,
+        top: rect.bottom + margins.bottom,
+        left,
+        width,
+        maxHeight: Math.max(spaceBelow, 0),
+      }
+    : {
+        placement: `top-${align}` as MenuPlacement,
+        bottom: viewportHeight - (rect.top - margins.top),
+        left,
+        width,
+        maxHeight: Math.max(spaceAbove, 0),
+      };
+}
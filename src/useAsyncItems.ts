@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from "react";
+
+/**
+ * Loads the items matching `query`. `signal` is aborted as soon as the result
+ * is no longer needed, i.e. when `query` changes again or the menu closes.
+ * `page` is 0 for the first request made for `query`, then counts the pages
+ * requested through `loadMore` with `hasMore`, whose items are appended.
+ */
+export type LoadItems<ItemT> = (
+  query: string,
+  options: { signal: AbortSignal; page: number }
+) => Promise<ItemT[]>;
+
+export interface AsyncItemsState<ItemT> {
+  items: ItemT[];
+  loading: boolean;
+  error: unknown;
+  /**
+   * Whether a page after the first is being loaded.
+   */
+  loadingMore: boolean;
+  /**
+   * The last page appended to `items`.
+   */
+  page: number;
+}
+
+/**
+ * Calls `loadItems` once `query` has not changed for `delay` milliseconds
+ * while `enabled` is set, and again when `key` changes. Only the response of
+ * the latest request is kept: every other one is aborted and its result
+ * discarded, even if `loadItems` ignores the signal.
+ */
+export function useAsyncItems<ItemT>(
+  loadItems: LoadItems<ItemT> | undefined,
+  query: string,
+  enabled: boolean,
+  delay: number,
+  key?: React.Key
+) {
+  const [state, setState] = useState<AsyncItemsState<ItemT>>({
+    items: [],
+    loading: false,
+    error: null,
+    loadingMore: false,
+    page: 0,
+  });
+  const loadItemsRef = useRef(loadItems);
+  loadItemsRef.current = loadItems;
+  // Calls `loadItems`, which failing right away is handled like a rejection
+  const request: LoadItems<ItemT> = (query, options) =>
+    new Promise((resolve) => resolve(loadItemsRef.current(query, options)));
+  // What `items` have been loaded for
+  const loadedRef = useRef<{ query: string; key?: React.Key } | null>(null);
+  const hasLoader = !!loadItems;
+
+  useEffect(() => {
+    const loaded = loadedRef.current;
+    if (
+      !hasLoader ||
+      !enabled ||
+      (loaded?.query === query && loaded.key === key)
+    ) {
+      return;
+    }
+    setState((s) => ({ ...s, loading: true, error: null }));
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      request(query, { signal: controller.signal, page: 0 }).then(
+        (items) => {
+          if (controller.signal.aborted) return;
+          loadedRef.current = { query, key };
+          setState({
+            items,
+            loading: false,
+            error: null,
+            loadingMore: false,
+            page: 0,
+          });
+        },
+        (error) => {
+          if (controller.signal.aborted) return;
+          setState((s) => ({ ...s, loading: false, error }));
+        }
+      );
+    }, delay);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+      setState((s) => (s.loading ? { ...s, loading: false } : s));
+    };
+  }, [hasLoader, query, enabled, delay, key]);
+
+  const moreControllerRef = useRef<AbortController | null>(null);
+  // A page is only wanted for the query and the menu it was requested for
+  useEffect(
+    () => () => {
+      if (!moreControllerRef.current) return;
+      moreControllerRef.current.abort();
+      moreControllerRef.current = null;
+      setState((s) => (s.loadingMore ? { ...s, loadingMore: false } : s));
+    },
+    [query, enabled, key]
+  );
+
+  /**
+   * Requests the page after the last one loaded for the current query, and
+   * appends its items.
+   */
+  const loadMore = () => {
+    const loaded = loadedRef.current;
+    if (
+      !hasLoader ||
+      !enabled ||
+      state.loading ||
+      moreControllerRef.current ||
+      loaded?.query !== query ||
+      loaded.key !== key
+    ) {
+      return;
+    }
+    const controller = new AbortController();
+    moreControllerRef.current = controller;
+    const page = state.page + 1;
+    setState((s) => ({ ...s, loadingMore: true, error: null }));
+    const settle = (update: Partial<AsyncItemsState<ItemT>>) => {
+      if (controller.signal.aborted) return;
+      moreControllerRef.current = null;
+      setState((s) => ({
+        ...s,
+        ...update,
+        items: update.items ? [...s.items, ...update.items] : s.items,
+        loadingMore: false,
+      }));
+    };
+    request(query, { signal: controller.signal, page }).then(
+      (items) => settle({ items, page }),
+      (error) => settle({ error })
+    );
+  };
+
+  return { ...state, loadMore };
+}
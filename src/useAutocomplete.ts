@@ -0,0 +1,1971 @@
+import React, {
+  useCallback,
+  useEffect,
+  useId,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import scrollIntoView from "dom-scroll-into-view";
+import {
+  AutocompleteAnnouncements,
+  defaultAnnouncements,
+  visuallyHiddenStyle,
+} from "./announcements";
+import {
+  Matcher,
+  MatchResult,
+  MatchStrategy,
+  resolveMatcher,
+} from "./matching";
+import {
+  AutocompleteActions,
+  AutocompleteContext,
+  KeyBinding,
+  keyDownHandlers,
+} from "./keyDownHandlers";
+import { Mention, useMention } from "./mentions";
+import { computeMenuPosition, MenuPlacement } from "./positioning";
+import { LoadItems, useAsyncItems } from "./useAsyncItems";
+import { LoadMore, useLoadMore } from "./useLoadMore";
+import { HistoryOptions, useRecentItems } from "./useRecentItems";
+import {
+  CreateItemHandler,
+  isCreateItem,
+  useCreateItem,
+} from "./useCreateItem";
+import { useMultipleSelection } from "./useMultipleSelection";
+import {
+  useVirtualItems,
+  VirtualItem,
+  VirtualizeOptions,
+} from "./useVirtualItems";
+import {
+  assignRef,
+  composeEventHandlers,
+  useIsomorphicLayoutEffect,
+} from "./utils";
+
+function getScrollOffset() {
+  return {
+    x:
+      window.pageXOffset !== undefined
+        ? window.pageXOffset
+        : (
+            (document.documentElement ||
+              document.body.parentNode ||
+              document.body) as HTMLElement
+          ).scrollLeft,
+    y:
+      window.pageYOffset !== undefined
+        ? window.pageYOffset
+        : (
+            (document.documentElement ||
+              document.body.parentNode ||
+              document.body) as HTMLElement
+          ).scrollTop,
+  };
+}
+
+const DEFAULT_PAGE_SIZE = 10;
+// How close (in pixels) to its bottom the menu must be scrolled for the next
+// page to be requested
+const LOAD_MORE_DISTANCE = 50;
+// How long typed characters are remembered for type-to-jump
+const TYPEAHEAD_TIMEOUT = 500;
+
+function noop() {
+  // default for the optional callbacks
+}
+
+export interface UseAutocompleteProps<ItemT = unknown> {
+  /**
+   * The items to display in the dropdown menu. Not needed when `loadItems`
+   * is given.
+   */
+  items?: ItemT[];
+  /**
+   * Alternative to `items` for results that come from a server. Invoked with
+   * the current `value` once it has settled for `loadDelay` milliseconds
+   * while the menu is open. Its `signal` is aborted when the request becomes
+   * stale, and the items it resolves with are used in place of `items`.
+   */
+  loadItems?: LoadItems<ItemT>;
+  /**
+   * Identifies what `loadItems` loads, besides `value`. Changing it (e.g. when
+   * the filters `loadItems` sends change) loads the items again, which a new
+   * `loadItems` function alone does not.
+   */
+  loadItemsKey?: React.Key;
+  /**
+   * How long (in milliseconds) `value` must stay unchanged before
+   * `loadItems` is invoked.
+   */
+  loadDelay?: number;
+  /**
+   * Whether there are more items to request. When the user reaches the end
+   * of the items, by pressing ArrowDown on the last one or scrolling the
+   * menu to its bottom, the next page is requested: from `loadItems`, whose
+   * items are appended to the ones loaded so far, or else `onLoadMore`.
+   */
+  hasMore?: boolean;
+  /**
+   * Invoked with `hasMore` and without `loadItems` to append the next page to
+   * `items`. Return a promise to have `loadingMore` set until it settles;
+   * `onLoadMore` is not invoked again meanwhile.
+   */
+  onLoadMore?: LoadMore;
+  /**
+   * The value to display in the input field
+   */
+  value?: string;
+  /**
+   * Invoked every time the input's value changes, with its new `value`.
+   * `event` is the input's change event when the user typed, and `null` when
+   * the value is replaced for them: when `requireSelection` rejects it, an
+   * inline completion is accepted or the form is reset (with `name`, `form`
+   * or `onFormChange`). Read `value` rather than `event.target.value`;
+   * `type` tells what happened.
+   */
+  onChange?: (
+    event: React.ChangeEvent<HTMLInputElement> | null,
+    value: string,
+    type: AutocompleteChangeType
+  ) => void;
+  /**
+   * Invoked when the user selects an item from the dropdown menu.
+   */
+  onSelect?: (
+    value: string,
+    item: ItemT,
+    type: AutocompleteChangeType
+  ) => void;
+  /**
+   * Invoked for each entry in `items` and its return value is used to
+   * determine whether or not it should be displayed in the dropdown menu.
+   * By default all items are always rendered.
+   */
+  shouldItemRender?: (item: ItemT, value: string) => boolean;
+  /**
+   * Invoked when attempting to select an item. The return value is used to
+   * determine whether the item should be selectable or not.
+   * By default all items are selectable.
+   */
+  isItemSelectable?: (item: ItemT) => boolean;
+  /**
+   * The function which is used to sort `items` before display.
+   */
+  sortItems?: (itemA: ItemT, itemB: ItemT, value: string) => number;
+  /**
+   * Used to read the display value from each entry in `items`.
+   */
+  getItemValue: (item: ItemT) => string;
+  /**
+   * Used to read a key identifying each entry in `items`, e.g. its id. The
+   * highlight then follows the highlighted item when `items` change, and
+   * the key is used as the React key of the rendered item.
+   */
+  getItemKey?: (item: ItemT) => React.Key;
+  /**
+   * Whether or not to automatically highlight the top match in the dropdown
+   * menu.
+   */
+  autoHighlight?: boolean;
+  /**
+   * Whether or not to automatically select the highlighted item when the
+   * `<input>` loses focus.
+   */
+  selectOnBlur?: boolean;
+  /**
+   * Only lets the input keep a value taken from `items`. When the input loses
+   * focus, or Enter is pressed with nothing highlighted, a value matching no
+   * selectable item is replaced with the last committed one ("revert") or
+   * with an empty string ("clear"), and `onInvalid` is invoked. A value
+   * equal to an item's (ignoring case) selects that item. Until then the
+   * input reports `validationMessage` as its custom validity.
+   */
+  requireSelection?: "revert" | "clear";
+  /**
+   * The message given to `setCustomValidity` while the input's value is not
+   * one of the items in `requireSelection` mode.
+   */
+  validationMessage?: string;
+  /**
+   * Lets the user create an item out of `value` when no item's
+   * `getItemValue` is exactly `value`, through an extra entry appended to the
+   * items. Selecting the entry invokes `onCreate`, then `onSelect` with the
+   * item it returns (or resolves to); the menu stays open and the entry
+   * can't be selected again in the meantime, and it stays open if the
+   * promise is rejected. Add the new item to `items` to keep it around.
+   */
+  onCreate?: CreateItemHandler<ItemT>;
+  /**
+   * Name under which the selected item is submitted with the form, through
+   * a hidden input (one per item in `multiple` mode). The visible input has
+   * no name, so the text typed in it is not submitted.
+   */
+  name?: string;
+  /**
+   * The id of the form the hidden input and the visible input belong to,
+   * when they are not inside it.
+   */
+  form?: string;
+  /**
+   * Used to read the value submitted for each entry in `items`, e.g. its id.
+   * Defaults to `getItemValue`.
+   */
+  getItemFormValue?: (item: ItemT) => string;
+  /**
+   * Receives the hidden input, outside of `multiple` mode. Pass it the `ref`
+   * returned by react-hook-form's `register`, together with `onFormChange`.
+   */
+  formInputRef?: React.Ref<HTMLInputElement>;
+  /**
+   * Invoked when the value of the hidden input changes, outside of
+   * `multiple` mode, with an event whose target is the hidden input. It
+   * suits the `onChange` handlers of react-hook-form and Formik.
+   */
+  onFormChange?: (event: { type: "change"; target: HTMLInputElement }) => void;
+  /**
+   * Items displayed when the input is empty, after the recently selected
+   * ones if `history` is set.
+   */
+  defaultSuggestions?: ItemT[];
+  /**
+   * Keeps track of the items the user selects, which are then displayed
+   * when the input is empty instead of `items`.
+   */
+  history?: HistoryOptions<ItemT>;
+  /**
+   * Invoked in `requireSelection` mode with the value which has been
+   * rejected.
+   */
+  onInvalid?: (value: string) => void;
+  /**
+   * Invoked every time the value of the input is settled: when an item is
+   * selected, with the item, or when the input is cleared, with `null`.
+   */
+  onCommit?: (value: string, item: ItemT | null) => void;
+  /**
+   * Whether or not to filter the items with the text an input method (e.g.
+   * for Japanese or Chinese) is still composing. By default the items stay
+   * filtered by the text typed before until the composition ends. Either
+   * way, nothing is highlighted automatically and the keys are left to the
+   * input method until then; `onChange` keeps being invoked so the input
+   * can display the composed text.
+   */
+  filterWhileComposing?: boolean;
+  /**
+   * Turns the input (usually a `<textarea>` rendered through `renderInput`)
+   * into a text editor with mentions: the menu only opens after one of these
+   * characters (e.g. "@" or "#") typed at the start of a word, next to it,
+   * and the items are filtered with the text between the trigger and the
+   * caret. Selecting an item replaces that text with its value, so `onSelect`
+   * receives the whole text of the input.
+   */
+  mentionTriggers?: string[];
+  /**
+   * Invoked every time the dropdown menu's visibility changes (i.e. every
+   * time it is displayed/hidden).
+   */
+  onMenuVisibilityChange?: (
+    isOpen: boolean,
+    type: AutocompleteChangeType
+  ) => void;
+  /**
+   * Used to override the internal logic which displays/hides the dropdown
+   * menu. This is useful if you want to force a certain state based on your
+   * UX/business logic. Use it together with `onMenuVisibilityChange` for
+   * fine-grained control over the dropdown menu dynamics.
+   */
+  open?: boolean;
+  /**
+   * Used to override the internally tracked highlighted index, `null`
+   * meaning nothing is highlighted. Use it together with
+   * `onHighlightedIndexChange`.
+   */
+  highlightedIndex?: number | null;
+  /**
+   * Invoked every time the user or the component wants to highlight another
+   * item (or none, with `null`).
+   */
+  onHighlightedIndexChange?: (
+    highlightedIndex: number | null,
+    type: AutocompleteChangeType
+  ) => void;
+  /**
+   * Invoked with every change of state the component is about to make and
+   * returns the changes to make instead, which lets you veto or rewrite
+   * them, e.g. keep the menu open after an item is selected with Enter.
+   * Highlighting the first match after the user typed comes with the
+   * "input-change" type.
+   */
+  stateReducer?: (
+    state: AutocompleteState,
+    action: AutocompleteAction
+  ) => Partial<AutocompleteState>;
+  /**
+   * Prefix of the ids generated for the dropdown menu and its items, which
+   * the input references through `aria-controls` and
+   * `aria-activedescendant`. Defaults to an id generated by `useId`, so it is
+   * stable between the server and the client.
+   */
+  id?: string;
+  /**
+   * Overrides the messages announced to screen readers when the number of
+   * results changes or an item is selected.
+   */
+  announcements?: Partial<AutocompleteAnnouncements<ItemT>>;
+  /**
+   * Renders only the items visible in the dropdown menu, plus a few on
+   * either side, instead of all of them. Use it for very large lists. The
+   * element receiving `getMenuProps` must be the scrolling element.
+   */
+  virtualize?: VirtualizeOptions;
+  /**
+   * Lets the user pick several items. Selecting an item appends it to
+   * `selectedItems` and hides it from the dropdown menu; `onSelect` is still
+   * invoked, typically to clear the input. Backspace in an empty input
+   * removes the last selected item.
+   */
+  multiple?: boolean;
+  /**
+   * The items picked in `multiple` mode. Leave it out to let
+   * `useAutocomplete` keep track of them.
+   */
+  selectedItems?: ItemT[];
+  /**
+   * Invoked every time an item is added to or removed from the selection in
+   * `multiple` mode.
+   */
+  onSelectedItemsChange?: (selectedItems: ItemT[]) => void;
+  /**
+   * Used to read the name of the group each entry in `items` belongs to.
+   * Items are displayed group by group, in the order the groups first
+   * appear, under a header which can never be highlighted.
+   */
+  getItemGroup?: (item: ItemT) => string;
+  /**
+   * Whether or not to complete the text in the input with the value of the
+   * highlighted item while typing, like a browser's address bar. The
+   * completed part is selected, so typing over it keeps narrowing the match,
+   * Backspace/Delete dismiss it and Tab/ArrowRight accept it. Ignored with
+   * `mentionTriggers`.
+   */
+  inlineCompletion?: boolean;
+  /**
+   * Where to display the dropdown menu relative to the input.
+   */
+  placement?: MenuPlacement;
+  /**
+   * Whether or not to move the dropdown menu to the other side of the input
+   * when there is not enough room for it on the side `placement` asks for.
+   */
+  flip?: boolean;
+  /**
+   * Displays only the items whose `getItemValue` matches `value`, using one
+   * of the built-in strategies ("prefix", "substring", "word-start",
+   * "fuzzy") or a custom matcher (see `createMatcher`). Works together with
+   * `shouldItemRender`. The parts of each item that matched are passed to
+   * `renderItem`.
+   */
+  match?: MatchStrategy | Matcher;
+  /**
+   * Whether or not to order the items by how well they match `value`, best
+   * first. Requires `match`; `sortItems` then only breaks ties.
+   */
+  sortByScore?: boolean;
+  /**
+   * The most items to display, after filtering and sorting. Use it to keep
+   * the menu fast when few of many items are filtered out.
+   */
+  maxItems?: number;
+  /**
+   * Whether or not ArrowDown on the last item highlights the first one (and
+   * ArrowUp on the first item the last one).
+   */
+  wrapAround?: boolean;
+  /**
+   * Per-instance key handlers, keyed by `event.key`. They take precedence
+   * over `keyDownHandlers`; `null` disables the handler for a key.
+   */
+  keyBindings?: Record<string, KeyBinding<ItemT> | null>;
+}
+
+export interface ItemGroup<ItemT = unknown> {
+  name: string;
+  /**
+   * The id of the group's header, which labels the group.
+   */
+  id: string;
+  items: Array<{ item: ItemT; index: number }>;
+}
+
+export interface AutocompleteState {
+  isOpen: boolean;
+  highlightedIndex: number | null;
+  menuTop?: number;
+  menuBottom?: number;
+  menuLeft?: number;
+  menuWidth?: number;
+  menuMaxHeight?: number;
+  menuPlacement?: MenuPlacement;
+}
+
+/**
+ * What caused a change of the highlighted index, of the menu's visibility or
+ * a selection.
+ */
+export type AutocompleteChangeType =
+  | "keyboard-arrow"
+  | "keyboard-home-end"
+  | "keyboard-page"
+  | "keyboard-enter"
+  | "keyboard-typeahead"
+  | "keyboard"
+  | "escape"
+  | "input-change"
+  | "input-focus"
+  | "input-click"
+  | "items-change"
+  | "mouse-enter"
+  | "item-click"
+  | "blur"
+  | "menu-position"
+  | "form-reset"
+  | "api"
+  | "unknown";
+
+/**
+ * A partial state, along with what caused it. `type` defaults to "unknown".
+ */
+export type StateChanges = Partial<AutocompleteState> & {
+  type?: AutocompleteChangeType;
+};
+
+/**
+ * A change of state the component is about to make, see `stateReducer`.
+ */
+export interface AutocompleteAction {
+  type: AutocompleteChangeType;
+  /**
+   * The part of the state which is about to change.
+   */
+  changes: Partial<AutocompleteState>;
+}
+
+export type StateUpdate<ItemT> =
+  | StateChanges
+  | ((
+      state: AutocompleteState,
+      props: UseAutocompleteProps<ItemT>
+    ) => StateChanges | void);
+
+/**
+ * The props deciding which items are displayed, and in which order.
+ */
+type ItemPipelineProps<ItemT> = Pick<
+  UseAutocompleteProps<ItemT>,
+  | "items"
+  | "value"
+  | "getItemValue"
+  | "shouldItemRender"
+  | "match"
+  | "sortItems"
+  | "sortByScore"
+  | "getItemGroup"
+  | "maxItems"
+>;
+
+/**
+ * Returns the items to display, along with how each of them matched with
+ * `match`. `props.items` is never modified.
+ */
+function getFilteredItems<ItemT>(props: ItemPipelineProps<ItemT>) {
+  let items = props.items;
+
+  if (props.shouldItemRender) {
+    items = items.filter((item) => props.shouldItemRender(item, props.value));
+  }
+
+  let matches: Map<ItemT, MatchResult> | null = null;
+  if (props.match) {
+    matches = new Map();
+    items = items.filter((item) => {
+      const match = matchItem(props, item);
+      if (match) matches.set(item, match);
+      return match !== null;
+    });
+  }
+
+  if (props.sortItems) {
+    items = [...items].sort((a, b) => props.sortItems(a, b, props.value));
+  }
+
+  if (matches && props.sortByScore) {
+    items = [...items].sort(
+      (a, b) => matches.get(b).score - matches.get(a).score
+    );
+  }
+
+  if (props.getItemGroup) {
+    items = groupItems(items, props.getItemGroup);
+  }
+
+  if (props.maxItems !== undefined && items.length > props.maxItems) {
+    items = items.slice(0, props.maxItems);
+  }
+
+  return { items, matches };
+}
+
+function matchItem<ItemT>(
+  props: Pick<UseAutocompleteProps<ItemT>, "match" | "getItemValue" | "value">,
+  item: ItemT
+) {
+  return resolveMatcher(props.match)(props.getItemValue(item), props.value);
+}
+
+/**
+ * Moves the items of each group next to each other, keeping the groups in the
+ * order they first appear and the items in their original order.
+ */
+function groupItems<ItemT>(
+  items: ItemT[],
+  getItemGroup: (item: ItemT) => string
+) {
+  const groups = new Map<string, ItemT[]>();
+  for (const item of items) {
+    const name = getItemGroup(item);
+    if (!groups.has(name)) groups.set(name, []);
+    groups.get(name).push(item);
+  }
+  return [].concat(...groups.values()) as ItemT[];
+}
+
+function maybeAutoCompleteText<ItemT>(
+  state: AutocompleteState,
+  props: UseAutocompleteProps<ItemT>,
+  items: ItemT[]
+): StateChanges {
+  const { highlightedIndex } = state;
+  const { value, getItemValue } = props;
+  let index = highlightedIndex === null ? 0 : highlightedIndex;
+  for (let i = 0; i < items.length; i++) {
+    if (props.isItemSelectable(items[index])) break;
+    index = (index + 1) % items.length;
+  }
+  const matchedItem =
+    items[index] && props.isItemSelectable(items[index]) ? items[index] : null;
+  if (value !== "" && matchedItem) {
+    const itemValue = getItemValue(matchedItem);
+    const itemValueDoesMatch = props.match
+      ? matchItem(props, matchedItem) !== null
+      : itemValue.toLowerCase().indexOf(value.toLowerCase()) === 0;
+    if (itemValueDoesMatch) {
+      return { highlightedIndex: index };
+    }
+  }
+  return { highlightedIndex: null };
+}
+
+/**
+ * Returns the selectable item whose value is `value`, ignoring case.
+ */
+function findItemByValue<ItemT>(
+  props: Pick<
+    UseAutocompleteProps<ItemT>,
+    "items" | "isItemSelectable" | "getItemValue"
+  >,
+  value: string
+) {
+  const lowerCaseValue = value.toLowerCase();
+  return props.items.find(
+    (item) =>
+      props.isItemSelectable(item) &&
+      props.getItemValue(item).toLowerCase() === lowerCaseValue
+  );
+}
+
+/**
+ * Whether one of `items` has exactly `value` as its value.
+ */
+function hasItemWithValue<ItemT>(
+  items: ItemT[],
+  getItemValue: (item: ItemT) => string,
+  value: string
+) {
+  return items.some((item) => getItemValue(item) === value);
+}
+
+/**
+ * Returns the entries of `items` which are not in `selectedItems`, compared
+ * by `getItemKey` when given.
+ */
+function getUnselectedItems<ItemT>(
+  items: ItemT[],
+  selectedItems: ItemT[],
+  getItemKey: ((item: ItemT) => React.Key) | undefined
+) {
+  if (!getItemKey) {
+    return items.filter((item) => !selectedItems.includes(item));
+  }
+  const selectedKeys = new Set(selectedItems.map((item) => getItemKey(item)));
+  return items.filter((item) => !selectedKeys.has(getItemKey(item)));
+}
+
+function ensureHighlightedIndex<ItemT>(
+  state: AutocompleteState,
+  items: ItemT[]
+) {
+  if (state.highlightedIndex >= items.length) {
+    return { highlightedIndex: null };
+  }
+}
+
+const defaultProps = {
+  items: [],
+  loadDelay: 200,
+  wrapAround: true,
+  placement: "bottom-start",
+  flip: true,
+  value: "",
+  onChange: noop,
+  onSelect: noop,
+  isItemSelectable() {
+    return true;
+  },
+  autoHighlight: true,
+  selectOnBlur: false,
+  validationMessage: "Please select an item from the list.",
+  onInvalid: noop,
+  onCommit: noop,
+  onMenuVisibilityChange: noop,
+  onHighlightedIndexChange: noop,
+  stateReducer(_state: AutocompleteState, action: AutocompleteAction) {
+    return action.changes;
+  },
+};
+
+function resolveProps<ItemT>(
+  props: UseAutocompleteProps<ItemT>
+): UseAutocompleteProps<ItemT> {
+  const resolved = { ...props };
+  for (const key of Object.keys(defaultProps)) {
+    if (resolved[key] === undefined) resolved[key] = defaultProps[key];
+  }
+  return resolved;
+}
+
+export type InputPropGetter = (
+  props?: React.InputHTMLAttributes<HTMLInputElement> & {
+    ref?: React.Ref<HTMLInputElement>;
+  }
+) => React.InputHTMLAttributes<HTMLInputElement> & {
+  ref: React.RefCallback<HTMLInputElement>;
+};
+
+export interface UseAutocompleteResult<ItemT = unknown> {
+  /**
+   * Whether the dropdown menu is currently displayed, taking the `open` prop
+   * into account.
+   */
+  isOpen: boolean;
+  highlightedIndex: number | null;
+  /**
+   * `items` after `shouldItemRender` and `sortItems` have been applied, i.e.
+   * the entries the menu is expected to render, in order.
+   */
+  items: ItemT[];
+  value: string;
+  /**
+   * { top, left, minWidth, maxHeight } of the dropdown menu, relative to the
+   * viewport. Menus displayed above the input get `bottom` instead of `top`.
+   */
+  menuPosition: React.CSSProperties;
+  /**
+   * Where the dropdown menu is displayed, after flipping.
+   */
+  menuPlacement: MenuPlacement;
+  /**
+   * The id given to the dropdown menu (the listbox).
+   */
+  menuId: string;
+  /**
+   * Returns the id given to the item rendered at `index`.
+   */
+  getItemId(index: number): string;
+  /**
+   * Returns the React key for `item`, rendered at `index`: its `getItemKey`,
+   * or `index` without it.
+   */
+  getItemKey(item: ItemT, index: number): React.Key;
+  /**
+   * With `match`, returns which parts of `item`'s value matched `value`.
+   */
+  getItemMatch(item: ItemT): MatchResult | null;
+  /**
+   * With `getItemGroup`, `items` split by group, otherwise `null`.
+   */
+  groups: ItemGroup<ItemT>[] | null;
+  /**
+   * Returns the props for the element wrapping the items of `group`.
+   */
+  getGroupProps: <PropsT extends React.HTMLAttributes<HTMLElement>>(
+    group: ItemGroup<ItemT>,
+    props?: PropsT
+  ) => PropsT;
+  /**
+   * Returns the props for the header displayed above the items of `group`.
+   */
+  getGroupHeaderProps: <PropsT extends React.HTMLAttributes<HTMLElement>>(
+    group: ItemGroup<ItemT>,
+    props?: PropsT
+  ) => PropsT;
+  /**
+   * With `virtualize`, the items to render and their offsets, otherwise
+   * `null`.
+   */
+  virtualItems: VirtualItem<ItemT>[] | null;
+  /**
+   * With `virtualize`, the height of all the items together. The space
+   * between the rendered items and either end of the menu must be filled so
+   * the menu scrolls the same as if every item had been rendered.
+   */
+  totalSize: number;
+  /**
+   * Whether `loadItems` is currently being waited for.
+   */
+  loading: boolean;
+  /**
+   * The reason the last `loadItems` call was rejected with, if it failed.
+   */
+  error: unknown;
+  /**
+   * Whether the next page of items is being waited for.
+   */
+  loadingMore: boolean;
+  /**
+   * With `hasMore`, requests the next page of items through `loadItems` or
+   * `onLoadMore`.
+   */
+  loadMore(): void;
+  /**
+   * With `onCreate`, the entry appended to `items` to create `value`, if it
+   * is displayed, otherwise `null`. It is not part of any group.
+   */
+  createItem: ItemT | null;
+  /**
+   * Whether the promise returned by `onCreate` is being waited for.
+   */
+  creating: boolean;
+  /**
+   * The reason the promise returned by `onCreate` for `value` was rejected
+   * with, if it was. The entry stays selectable to try again.
+   */
+  createError: unknown;
+  /**
+   * Whether the input is empty and the items are the recently selected ones
+   * and `defaultSuggestions`.
+   */
+  showingSuggestions: boolean;
+  /**
+   * With `mentionTriggers`, the mention the caret is in, if any.
+   */
+  mention: Mention | null;
+  /**
+   * The items selected last, most recent first, with `history`.
+   */
+  recentItems: ItemT[];
+  /**
+   * Forgets the items selected so far.
+   */
+  clearHistory(): void;
+  /**
+   * The message currently exposed through the live region.
+   */
+  announcement: string;
+  inputRef: React.MutableRefObject<HTMLInputElement | null>;
+  /**
+   * Returns the props for the `<input>`. Handlers passed in are composed with
+   * the internal ones and `ref` receives the input node.
+   */
+  getInputProps: InputPropGetter;
+  /**
+   * Returns the props for the element wrapping the rendered items. It gets
+   * `tabIndex: -1` so it can take the focus, e.g. for type-to-jump; the menu
+   * then stays open until the focus leaves it.
+   */
+  getMenuProps: <PropsT extends React.HTMLAttributes<HTMLElement>>(
+    props?: PropsT
+  ) => PropsT & { ref: React.RefCallback<HTMLElement> };
+  /**
+   * Returns the props for the element rendered for `items[index]`.
+   */
+  getItemProps: <PropsT extends React.HTMLAttributes<HTMLElement>>(
+    props: PropsT & { item: ItemT; index: number }
+  ) => Omit<PropsT, "item" | "index"> & {
+    ref: React.RefCallback<HTMLElement>;
+  };
+  /**
+   * Returns the props for a polite live region announcing `announcement`.
+   * Render it whether or not the menu is open.
+   */
+  getLiveRegionProps: () => React.HTMLAttributes<HTMLElement> & {
+    children: string;
+  };
+  /**
+   * Returns the props for the hidden inputs holding the values submitted
+   * with the form, one per value. Empty without `name`.
+   */
+  getHiddenInputProps: () => Array<
+    React.InputHTMLAttributes<HTMLInputElement> & {
+      ref?: React.Ref<HTMLInputElement>;
+    }
+  >;
+  /**
+   * The items picked in `multiple` mode.
+   */
+  selectedItems: ItemT[];
+  /**
+   * Returns the props for the chip rendered for `selectedItems[index]`,
+   * which let the user move between the chips with the arrow keys and remove
+   * them with Backspace/Delete.
+   */
+  getSelectedItemProps: <PropsT extends React.HTMLAttributes<HTMLElement>>(
+    props: PropsT & { item: ItemT; index: number }
+  ) => Omit<PropsT, "item" | "index"> & {
+    tabIndex: number;
+    ref: React.RefCallback<HTMLElement>;
+  };
+  removeSelectedItem(item: ItemT): void;
+  setHighlightedIndex(index: number | null): void;
+  openMenu(): void;
+  closeMenu(): void;
+  selectItem(item: ItemT): void;
+}
+
+/**
+ * Headless version of `Autocomplete`. It owns the open state, the highlighted
+ * index and the keyboard/mouse/focus handling, and leaves the markup to the
+ * caller through the returned prop getters. The elements receiving
+ * `getMenuProps` and `getItemProps` must be DOM elements (or forward their ref
+ * to one) so the highlighted item can be scrolled into view.
+ */
+export function useAutocomplete<ItemT = unknown>(
+  userProps: UseAutocompleteProps<ItemT>
+): UseAutocompleteResult<ItemT> {
+  const [announcement, setAnnouncement] = useState("");
+  const announcements = { ...defaultAnnouncements, ...userProps.announcements };
+  const props = resolveProps(userProps);
+  const inputValue = props.value;
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const mentions = useMention(inputValue, props.mentionTriggers, inputRef);
+  const { mention } = mentions;
+  // With `mentionTriggers`, only the mention's text is what the user typed
+  const typedValue = props.mentionTriggers
+    ? mention?.query ?? ""
+    : inputValue;
+  // While an input method composes text, the typed text isn't settled yet,
+  // so keep using what was typed before
+  const [composition, setComposition] = useState({
+    composing: false,
+    value: "",
+  });
+  const { composing } = composition;
+  // The text the items are filtered with, exposed as `value`
+  const query =
+    composing && !props.filterWhileComposing ? composition.value : typedValue;
+
+  // The last value the input was allowed to keep in `requireSelection` mode
+  const committedRef = useRef<{ value: string; item: ItemT | null }>({
+    value: query,
+    item: null,
+  });
+  const recent = useRecentItems(
+    props.history,
+    props.defaultSuggestions,
+    props.getItemKey
+      ? (item) => String(props.getItemKey(item))
+      : props.getItemValue
+  );
+  const [state, setRawState] = useState<AutocompleteState>({
+    isOpen: false,
+    highlightedIndex: null,
+  });
+  const isOpen =
+    ("open" in props ? props.open : state.isOpen) &&
+    (!props.mentionTriggers || mention !== null);
+  const highlightedIndex =
+    props.highlightedIndex !== undefined
+      ? props.highlightedIndex
+      : state.highlightedIndex;
+
+  const showingSuggestions = query === "" && recent.suggestions.length > 0;
+  const asyncItems = useAsyncItems(
+    props.loadItems,
+    query,
+    isOpen && !showingSuggestions,
+    props.loadDelay,
+    props.loadItemsKey
+  );
+  // The items the menu is built from, before filtering
+  const sourceItems = showingSuggestions
+    ? recent.suggestions
+    : props.loadItems
+    ? asyncItems.items
+    : props.items;
+
+  // What `setState` updaters and the key handlers see as the props, set once
+  // the items and the selection have been worked out below
+  const propsRef = useRef<UseAutocompleteProps<ItemT>>(props);
+
+  const callbacksRef = useRef<Array<() => void>>([]);
+  // Updates are applied right away rather than when React renders, so the
+  // callbacks know what actually changed
+  const latestStateRef = useRef(state);
+  const setState = useCallback(
+    (update: StateUpdate<ItemT>, callback?: () => void) => {
+      const currentProps = propsRef.current;
+      const prev = latestStateRef.current;
+      // What the user sees, taking the controlled props into account
+      const prevIsOpen =
+        "open" in currentProps ? currentProps.open : prev.isOpen;
+      const prevHighlightedIndex =
+        currentProps.highlightedIndex !== undefined
+          ? currentProps.highlightedIndex
+          : prev.highlightedIndex;
+      const prevState = { ...prev, highlightedIndex: prevHighlightedIndex };
+      const partial =
+        typeof update === "function" ? update(prevState, currentProps) : update;
+      if (!partial && !callback) return;
+      const { type = "unknown", ...proposedChanges } = partial || {};
+      const changes = currentProps.stateReducer(
+        { ...prevState, isOpen: prevIsOpen },
+        { type, changes: proposedChanges }
+      );
+      const next = { ...prev, ...changes };
+      latestStateRef.current = next;
+      setRawState(next);
+      if ("isOpen" in changes && changes.isOpen !== prevIsOpen) {
+        callbacksRef.current.push(() =>
+          propsRef.current.onMenuVisibilityChange(changes.isOpen, type)
+        );
+      }
+      if (
+        "highlightedIndex" in changes &&
+        changes.highlightedIndex !== prevHighlightedIndex
+      ) {
+        callbacksRef.current.push(() =>
+          propsRef.current.onHighlightedIndexChange(
+            changes.highlightedIndex,
+            type
+          )
+        );
+      }
+      if (callback) callbacksRef.current.push(callback);
+    },
+    []
+  );
+
+  const externalInputRef = useRef<React.Ref<HTMLInputElement>>();
+  const menuRef = useRef<HTMLElement | null>(null);
+  const itemRefs = useRef(new Map<number, HTMLElement>());
+  const ignoreBlurRef = useRef(false);
+  const ignoreFocusRef = useRef(false);
+  const scrollOffsetRef = useRef<{ x: number; y: number } | null>(null);
+  const scrollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const multipleSelection = useMultipleSelection(
+    props.selectedItems,
+    props.onSelectedItemsChange,
+    inputRef
+  );
+  const { selectedItems } = multipleSelection;
+  const unselectedItems = useMemo(
+    () =>
+      props.multiple
+        ? getUnselectedItems(sourceItems, selectedItems, props.getItemKey)
+        : sourceItems,
+    [props.multiple, sourceItems, props.getItemKey, selectedItems]
+  );
+
+  // Only run the pipeline again when one of its inputs changes
+  const filtered = useMemo(
+    () =>
+      getFilteredItems({
+        items: unselectedItems,
+        value: query,
+        getItemValue: props.getItemValue,
+        shouldItemRender: props.shouldItemRender,
+        match: props.match,
+        sortItems: props.sortItems,
+        sortByScore: props.sortByScore,
+        getItemGroup: props.getItemGroup,
+        maxItems: props.maxItems,
+      }),
+    [
+      unselectedItems,
+      query,
+      props.getItemValue,
+      props.shouldItemRender,
+      props.match,
+      props.sortItems,
+      props.sortByScore,
+      props.getItemGroup,
+      props.maxItems,
+    ]
+  );
+
+  const creatable = useCreateItem(
+    props.onCreate,
+    query,
+    props.getItemValue,
+    props.isItemSelectable
+  );
+  const { createItem } = creatable;
+  // Both know about the entry creating an item
+  const { getItemValue, isItemSelectable } = creatable;
+  const canCreate = !!props.onCreate;
+  const hasExactMatch = useMemo(
+    () =>
+      canCreate &&
+      hasItemWithValue(unselectedItems, props.getItemValue, query),
+    [canCreate, unselectedItems, props.getItemValue, query]
+  );
+  const showCreateItem =
+    canCreate && query !== "" && !asyncItems.loading && !hasExactMatch;
+
+  let items = filtered.items;
+  if (showCreateItem) items = [...items, createItem];
+  const virtual = useVirtualItems(
+    items,
+    props.virtualize,
+    menuRef,
+    unselectedItems
+  );
+  // The pages of `items` are appended to it, before any filtering
+  const staticPages = useLoadMore(
+    props.hasMore,
+    props.onLoadMore,
+    props.items.length
+  );
+  const loadingMore = props.loadItems
+    ? asyncItems.loadingMore
+    : staticPages.loadingMore;
+  const loadMore = () => {
+    // The suggestions have no pages
+    if (!props.hasMore || showingSuggestions) return;
+    if (props.loadItems) asyncItems.loadMore();
+    else staticPages.loadMore();
+  };
+
+  /**
+   * Selects `item`, whose value is `value`. The entry creating an item is
+   * created first; the item is then added to `selectedItems` in `multiple`
+   * mode, committed, remembered with `history`, and with `mentionTriggers`
+   * the mention is replaced with `value` in the text passed to `onSelect`.
+   */
+  const select = (
+    value: string,
+    item: ItemT,
+    type: AutocompleteChangeType
+  ) => {
+    if (isCreateItem(item)) {
+      if (creatable.creating) return;
+      // The menu stays open until then, displaying the pending state or why
+      // it failed
+      creatable.create(value, (created) =>
+        setState({ isOpen: false, highlightedIndex: null, type }, () =>
+          select(props.getItemValue(created), created, type)
+        )
+      );
+      return;
+    }
+    if (props.multiple) multipleSelection.addSelectedItem(item);
+    committedRef.current = { value, item };
+    recent.addRecentItem(item);
+    setAnnouncement(announcements.selected(value, item));
+    props.onCommit(value, item);
+    if (!props.mentionTriggers) {
+      props.onSelect(value, item, type);
+    } else if (mention) {
+      props.onSelect(mentions.replace(value), item, type);
+    }
+  };
+
+  propsRef.current = {
+    ...props,
+    value: query,
+    items: unselectedItems,
+    getItemValue,
+    isItemSelectable,
+    onSelect: select,
+  };
+
+  const generatedId = useId();
+  const baseId = props.id ?? generatedId;
+  const menuId = `${baseId}-menu`;
+  const getItemId = (index: number) => `${baseId}-item-${index}`;
+
+  let groups: ItemGroup<ItemT>[] | null = null;
+  if (props.getItemGroup) {
+    groups = [];
+    items.forEach((item, index) => {
+      // Displayed after the groups
+      if (item === createItem) return;
+      const name = props.getItemGroup(item);
+      let group = groups[groups.length - 1];
+      if (!group || group.name !== name) {
+        group = { name, id: `${baseId}-group-${groups.length}`, items: [] };
+        groups.push(group);
+      }
+      group.items.push({ item, index });
+    });
+  }
+
+  const getItemKey = (item: ItemT, index: number): React.Key => {
+    if (isCreateItem(item)) return "create";
+    return props.getItemKey ? props.getItemKey(item) : index;
+  };
+  // Key of the item highlighted in the last committed render
+  const highlightedKeyRef = useRef<React.Key | null>(null);
+  useIsomorphicLayoutEffect(() => {
+    highlightedKeyRef.current =
+      highlightedIndex !== null && items[highlightedIndex] !== undefined
+        ? getItemKey(items[highlightedIndex], highlightedIndex)
+        : null;
+  });
+
+  // Keep the highlight in sync with the items, the way
+  // `componentWillReceiveProps` used to
+  const [prevInputs, setPrevInputs] = useState({
+    value: query,
+    items: unselectedItems,
+    composing,
+  });
+  // Typing a trigger opens the menu, leaving the mention closes it
+  const mentionStart = mention ? mention.start : null;
+  const [prevMentionStart, setPrevMentionStart] = useState(mentionStart);
+  if (prevMentionStart !== mentionStart) {
+    setPrevMentionStart(mentionStart);
+    setState(
+      mentionStart === null
+        ? { isOpen: false, highlightedIndex: null, type: "input-change" }
+        : { isOpen: true, type: "input-change" }
+    );
+  }
+
+  // Only complete the text after the user typed more of it
+  const [canComplete, setCanComplete] = useState(false);
+  if (
+    prevInputs.value !== query ||
+    prevInputs.items !== unselectedItems ||
+    prevInputs.composing !== composing
+  ) {
+    setPrevInputs({ value: query, items: unselectedItems, composing });
+    // The composed text only counts once the composition has ended
+    const valueChanged =
+      !composing &&
+      (prevInputs.value !== query || prevInputs.composing);
+    if (prevInputs.value !== query) {
+      setCanComplete(query.length > prevInputs.value.length);
+    }
+    const type = valueChanged ? "input-change" : "items-change";
+    const highlightedKey = highlightedKeyRef.current;
+    if (props.getItemKey && highlightedKey !== null) {
+      // Follow the highlighted item rather than its index
+      const index = items.findIndex(
+        (item, i) => getItemKey(item, i) === highlightedKey
+      );
+      setState({ highlightedIndex: index === -1 ? null : index, type });
+    } else if (highlightedIndex !== null) {
+      setState((prev) => {
+        const changes = ensureHighlightedIndex(prev, items);
+        if (changes) return { ...changes, type };
+      });
+    }
+    if (
+      props.autoHighlight &&
+      !composing &&
+      (valueChanged || highlightedIndex === null)
+    ) {
+      setState((prev, nextProps) => ({
+        ...maybeAutoCompleteText(prev, nextProps, items),
+        type,
+      }));
+    }
+  }
+
+  let completion: string | null = null;
+  const highlightedItem =
+    highlightedIndex !== null ? items[highlightedIndex] : undefined;
+  if (
+    props.inlineCompletion &&
+    // `value` is only the mention's query then, not the input's text
+    !props.mentionTriggers &&
+    !composing &&
+    canComplete &&
+    isOpen &&
+    query !== "" &&
+    highlightedItem !== undefined
+  ) {
+    const itemValue = getItemValue(highlightedItem);
+    if (
+      itemValue.length > query.length &&
+      itemValue.toLowerCase().indexOf(query.toLowerCase()) === 0
+    ) {
+      completion = query + itemValue.slice(query.length);
+    }
+  }
+
+  useIsomorphicLayoutEffect(() => {
+    const input = inputRef.current;
+    if (completion !== null && input && isInputFocused()) {
+      input.setSelectionRange(query.length, completion.length);
+    }
+  });
+
+  useIsomorphicLayoutEffect(() => {
+    const callbacks = callbacksRef.current;
+    callbacksRef.current = [];
+    callbacks.forEach((callback) => callback());
+  });
+
+  const mentionStartRef = useRef(mentionStart);
+  mentionStartRef.current = mentionStart;
+  const setMenuPositions = useCallback(() => {
+    const { placement, flip } = propsRef.current;
+    const position = computeMenuPosition(
+      inputRef.current,
+      menuRef.current,
+      placement,
+      flip,
+      // The menu stays where the mention starts while it is typed
+      mentionStartRef.current ?? undefined
+    );
+    setState((prev) =>
+      prev.menuPlacement === position.placement &&
+      prev.menuTop === position.top &&
+      prev.menuBottom === position.bottom &&
+      prev.menuLeft === position.left &&
+      prev.menuWidth === position.width &&
+      prev.menuMaxHeight === position.maxHeight
+        ? undefined
+        : {
+            type: "menu-position",
+            menuPlacement: position.placement,
+            menuTop: position.top,
+            menuBottom: position.bottom,
+            menuLeft: position.left,
+            menuWidth: position.width,
+            menuMaxHeight: position.maxHeight,
+          }
+    );
+  }, [setState]);
+
+  // The content of the menu decides whether it needs to be flipped
+  useIsomorphicLayoutEffect(() => {
+    if (isOpen) setMenuPositions();
+  }, [isOpen, items.length, mentionStart, setMenuPositions]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleScroll = (event: Event) => {
+      if (event.target !== menuRef.current) setMenuPositions();
+    };
+    window.addEventListener("scroll", handleScroll, true);
+    window.addEventListener("resize", setMenuPositions);
+    const observer =
+      typeof ResizeObserver !== "undefined"
+        ? new ResizeObserver(setMenuPositions)
+        : null;
+    if (observer) observer.observe(inputRef.current);
+    return () => {
+      window.removeEventListener("scroll", handleScroll, true);
+      window.removeEventListener("resize", setMenuPositions);
+      if (observer) observer.disconnect();
+    };
+  }, [isOpen, setMenuPositions]);
+
+  useIsomorphicLayoutEffect(() => {
+    if (isOpen && props.virtualize) virtual.syncViewport();
+  });
+
+  const scrolledToIndexRef = useRef<number | null>(null);
+  useIsomorphicLayoutEffect(() => {
+    if (props.virtualize) {
+      // The highlighted item may not be rendered, so use its offset. Only
+      // follow highlight changes, as re-rendering is part of scrolling here.
+      const index = isOpen ? highlightedIndex : null;
+      if (index !== null && index !== scrolledToIndexRef.current) {
+        virtual.scrollToIndex(index);
+      }
+      scrolledToIndexRef.current = index;
+    } else if (isOpen && highlightedIndex !== null) {
+      const itemNode = itemRefs.current.get(highlightedIndex);
+      const menuNode = menuRef.current;
+      if (itemNode && menuNode) {
+        scrollIntoView(itemNode, menuNode, { onlyScrollIfNeeded: true });
+      }
+    }
+  });
+
+  // Only announce the results when the menu opens or their count changes
+  const resultsAnnouncement = isOpen
+    ? items.length
+      ? announcements.results(items.length)
+      : announcements.noResults()
+    : null;
+  useEffect(() => {
+    if (resultsAnnouncement !== null) setAnnouncement(resultsAnnouncement);
+  }, [resultsAnnouncement]);
+
+  useEffect(
+    () => () => {
+      clearTimeout(scrollTimerRef.current);
+      scrollTimerRef.current = null;
+      clearTimeout(typeaheadRef.current.timer);
+    },
+    []
+  );
+
+  const checkSelection = (
+    event: React.SyntheticEvent,
+    type: AutocompleteChangeType
+  ) => {
+    if (!props.requireSelection) return;
+    const value = query;
+    if (value === committedRef.current.value) return;
+    if (value === "") {
+      committedRef.current = { value, item: null };
+      props.onCommit(value, null);
+      return;
+    }
+    const item = valueItem;
+    if (item !== undefined) {
+      select(props.getItemValue(item), item, type);
+      return;
+    }
+    // Don't let Enter submit the form with the rejected value
+    event.preventDefault();
+    props.onInvalid(value);
+    if (props.requireSelection === "clear") {
+      committedRef.current = { value: "", item: null };
+      props.onCommit("", null);
+    }
+    props.onChange(null, committedRef.current.value, type);
+  };
+
+  // Looking the value up among the items is only worth it if it is read
+  const readsFormValue = props.name !== undefined || !!props.onFormChange;
+  const lookUpValue = !!props.requireSelection || readsFormValue;
+  const valueItem = useMemo(
+    () =>
+      lookUpValue
+        ? findItemByValue(
+            {
+              items: unselectedItems,
+              isItemSelectable: props.isItemSelectable,
+              getItemValue: props.getItemValue,
+            },
+            query
+          )
+        : undefined,
+    [
+      lookUpValue,
+      unselectedItems,
+      props.isItemSelectable,
+      props.getItemValue,
+      query,
+    ]
+  );
+  const isValueAllowed =
+    !props.requireSelection ||
+    query === "" ||
+    query === committedRef.current.value ||
+    valueItem !== undefined;
+  useEffect(() => {
+    if (props.requireSelection && inputRef.current) {
+      inputRef.current.setCustomValidity(
+        isValueAllowed ? "" : props.validationMessage
+      );
+    }
+  }, [props.requireSelection, props.validationMessage, isValueAllowed]);
+
+  const committedItem = committedRef.current.item;
+  const getItemFormValue = props.getItemFormValue ?? getItemValue;
+  const formValues = useMemo(() => {
+    if (!readsFormValue) return [];
+    if (props.multiple) {
+      return selectedItems.map((item) => getItemFormValue(item));
+    }
+    const selectedItem =
+      committedItem !== null && getItemValue(committedItem) === query
+        ? committedItem
+        : valueItem;
+    return [selectedItem !== undefined ? getItemFormValue(selectedItem) : ""];
+  }, [
+    readsFormValue,
+    props.multiple,
+    query,
+    getItemValue,
+    getItemFormValue,
+    selectedItems,
+    committedItem,
+    valueItem,
+  ]);
+
+  const hiddenInputRef = useRef<HTMLInputElement | null>(null);
+  const externalHiddenInputRef = useRef<React.Ref<HTMLInputElement>>();
+  externalHiddenInputRef.current = props.formInputRef;
+  const setHiddenInputNode = useCallback((node: HTMLInputElement | null) => {
+    hiddenInputRef.current = node;
+    assignRef(externalHiddenInputRef.current, node);
+  }, []);
+
+  const formValue = props.multiple ? null : formValues[0] ?? null;
+  const prevFormValueRef = useRef(formValue);
+  useIsomorphicLayoutEffect(() => {
+    if (formValue === prevFormValueRef.current) return;
+    prevFormValueRef.current = formValue;
+    const { onFormChange } = propsRef.current;
+    if (onFormChange && hiddenInputRef.current) {
+      onFormChange({ type: "change", target: hiddenInputRef.current });
+    }
+  }, [formValue]);
+
+  // What a reset of the form goes back to
+  const initialRef = useRef({ value: query, selectedItems });
+  const resetRef = useRef<() => void>();
+  resetRef.current = () => {
+    const { value, selectedItems } = initialRef.current;
+    committedRef.current = { value, item: null };
+    if (props.multiple) multipleSelection.setSelectedItems(selectedItems);
+    setState({ isOpen: false, highlightedIndex: null, type: "form-reset" });
+    props.onChange(null, value, "form-reset");
+  };
+  // Only forms the component has been wired to are followed
+  const followsForm = readsFormValue || props.form !== undefined;
+  useEffect(() => {
+    const form = followsForm ? inputRef.current?.form : null;
+    if (!form) return;
+    const handleReset = () => resetRef.current();
+    form.addEventListener("reset", handleReset);
+    return () => form.removeEventListener("reset", handleReset);
+  }, [followsForm, props.form]);
+
+  const setIgnoreBlur = (ignore: boolean) => {
+    ignoreBlurRef.current = ignore;
+  };
+
+  const context: AutocompleteContext<ItemT> = {
+    props: propsRef.current,
+    state: { ...state, highlightedIndex },
+    setState,
+    getFilteredItems: () => items,
+    isOpen: () => isOpen,
+    setIgnoreBlur,
+    checkSelection,
+    loadMore,
+    getPageSize: () => {
+      const menu = menuRef.current;
+      const itemNode: HTMLElement | undefined = itemRefs.current
+        .values()
+        .next().value;
+      const itemHeight = props.virtualize?.itemHeight ?? itemNode?.offsetHeight;
+      return menu && itemHeight
+        ? Math.max(1, Math.floor(menu.clientHeight / itemHeight))
+        : DEFAULT_PAGE_SIZE;
+    },
+    inputRef,
+  };
+
+  const runKeyBinding = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    const runDefault = () => {
+      if (keyDownHandlers[event.key]) {
+        keyDownHandlers[event.key].call(context, event);
+      }
+    };
+    const binding = props.keyBindings?.[event.key];
+    if (binding === null) return false;
+    if (binding) {
+      const actions: AutocompleteActions<ItemT> = {
+        isOpen,
+        highlightedIndex,
+        items,
+        open: () => setState({ isOpen: true, type: "keyboard" }),
+        close: () => closeMenu("keyboard"),
+        highlight: (index) =>
+          setState({ highlightedIndex: index, isOpen: true, type: "keyboard" }),
+        select: (index = highlightedIndex) => {
+          if (index !== null && items[index] !== undefined) {
+            selectItemFromMouse(items[index], "keyboard");
+          }
+        },
+        runDefault,
+      };
+      binding(event, actions);
+      return true;
+    }
+    if (keyDownHandlers[event.key]) {
+      runDefault();
+      return true;
+    }
+    return false;
+  };
+
+  const typeaheadRef = useRef({ query: "", timer: null });
+  /**
+   * Highlights the next item starting with the characters typed in quick
+   * succession. Returns whether the event has been handled.
+   */
+  const handleTypeahead = (event: React.KeyboardEvent) => {
+    if (
+      event.key.length !== 1 ||
+      event.ctrlKey ||
+      event.metaKey ||
+      event.altKey
+    ) {
+      return false;
+    }
+    event.preventDefault();
+    const typeahead = typeaheadRef.current;
+    clearTimeout(typeahead.timer);
+    typeahead.timer = setTimeout(() => {
+      typeahead.query = "";
+    }, TYPEAHEAD_TIMEOUT);
+    typeahead.query += event.key.toLowerCase();
+    // Typing the same character again goes to the next item starting with it
+    const isRepeat = typeahead.query
+      .split("")
+      .every((character) => character === typeahead.query[0]);
+    const query = isRepeat ? typeahead.query[0] : typeahead.query;
+    const start =
+      highlightedIndex === null ? 0 : highlightedIndex + (isRepeat ? 1 : 0);
+    for (let i = 0; i < items.length; i++) {
+      const index = (start + i) % items.length;
+      if (
+        isItemSelectable(items[index]) &&
+        getItemValue(items[index]).toLowerCase().indexOf(query) === 0
+      ) {
+        setState({
+          highlightedIndex: index,
+          isOpen: true,
+          type: "keyboard-typeahead",
+        });
+        break;
+      }
+    }
+    return true;
+  };
+
+  const handleCompletionKeyDown = (
+    event: React.KeyboardEvent<HTMLInputElement>
+  ) => {
+    if (completion === null) return false;
+    switch (event.key) {
+      case "Backspace":
+      case "Delete":
+        event.preventDefault();
+        setCanComplete(false);
+        return true;
+      case "Tab":
+      case "ArrowRight":
+        event.preventDefault();
+        // The input already displays the completed text
+        event.currentTarget.setSelectionRange(
+          completion.length,
+          completion.length
+        );
+        props.onChange(null, completion, "keyboard");
+        return true;
+    }
+    return false;
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    // The keys belong to the input method, e.g. to pick a candidate
+    if (composing || event.nativeEvent.isComposing) return;
+    // Outside of a mention, the keys are the text editor's
+    if (props.mentionTriggers && !mention) return;
+    if (handleCompletionKeyDown(event)) return;
+    if (props.multiple && multipleSelection.handleInputKeyDown(event)) return;
+    const hasBinding = props.keyBindings?.[event.key] !== undefined;
+    // A read-only input behaves like a <select>
+    if (!hasBinding && event.currentTarget.readOnly && handleTypeahead(event))
+      return;
+    if (!runKeyBinding(event) && !isOpen) {
+      setState({
+        isOpen: true,
+        type: "keyboard",
+      });
+    }
+  };
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    if (props.mentionTriggers) {
+      mentions.setCaret(event.target.selectionStart);
+    }
+    props.onChange(event, event.target.value, "input-change");
+  };
+
+  const handleSelect = (event: React.SyntheticEvent<HTMLInputElement>) => {
+    if (props.mentionTriggers) {
+      mentions.setCaret(event.currentTarget.selectionStart);
+    }
+  };
+
+  const handleCompositionStart = () => {
+    setComposition({ composing: true, value: typedValue });
+  };
+
+  const handleCompositionEnd = () => {
+    setComposition({ composing: false, value: "" });
+  };
+
+  const highlightItemFromMouse = (index: number) => {
+    setState({ highlightedIndex: index, type: "mouse-enter" });
+  };
+
+  const openMenu = () => setState({ isOpen: true, type: "api" });
+
+  const closeMenu = (type: AutocompleteChangeType = "api") => {
+    // In case the user is currently hovering over the menu
+    setIgnoreBlur(false);
+    setState({ isOpen: false, highlightedIndex: null, type });
+  };
+
+  const selectItemFromMouse = (
+    item: ItemT,
+    type: AutocompleteChangeType = "item-click"
+  ) => {
+    const value = getItemValue(item);
+    // Closes the menu once the item has been created
+    if (isCreateItem(item)) {
+      select(value, item, type);
+      return;
+    }
+    // The menu will de-render before a mouseLeave event
+    // happens. Clear the flag to release control over focus
+    setIgnoreBlur(false);
+    setState(
+      {
+        isOpen: false,
+        highlightedIndex: null,
+        type,
+      },
+      () => {
+        select(value, item, type);
+      }
+    );
+  };
+
+  /**
+   * Gives the focus back to the input without reopening the menu.
+   */
+  const refocusInput = () => {
+    ignoreFocusRef.current = true;
+    scrollOffsetRef.current = getScrollOffset();
+    inputRef.current.focus();
+  };
+
+  const isInMenu = (node: EventTarget | null) =>
+    !!menuRef.current && menuRef.current.contains(node as Node | null);
+
+  const closeAfterBlur = (event: React.FocusEvent) => {
+    let setStateCallback: () => void;
+    if (props.selectOnBlur && highlightedIndex !== null) {
+      const item = items[highlightedIndex];
+      const value = getItemValue(item);
+      setStateCallback = () => select(value, item, "blur");
+    } else {
+      checkSelection(event, "blur");
+    }
+    setState(
+      {
+        isOpen: false,
+        highlightedIndex: null,
+        type: "blur",
+      },
+      setStateCallback
+    );
+  };
+
+  const handleInputBlur = (
+    event: React.FocusEvent<HTMLInputElement>,
+    onBlur?: React.FocusEventHandler<HTMLInputElement>
+  ) => {
+    // The menu took the focus, e.g. to jump to an item by typing
+    if (isInMenu(event.relatedTarget)) return;
+    if (ignoreBlurRef.current) {
+      refocusInput();
+      return;
+    }
+    closeAfterBlur(event);
+    if (onBlur) {
+      onBlur(event);
+    }
+  };
+
+  // Whether the focus is in the menu
+  const menuFocusedRef = useRef(false);
+
+  const handleMenuBlur = (event: React.FocusEvent<HTMLElement>) => {
+    if (isInMenu(event.relatedTarget)) return;
+    menuFocusedRef.current = false;
+    if (event.relatedTarget !== inputRef.current) closeAfterBlur(event);
+  };
+
+  // The focused menu is gone once closed, e.g. with Enter or Escape
+  useIsomorphicLayoutEffect(() => {
+    if (!isOpen && menuFocusedRef.current) {
+      menuFocusedRef.current = false;
+      refocusInput();
+    }
+  }, [isOpen]);
+
+  const handleInputFocus = (
+    event: React.FocusEvent<HTMLInputElement>,
+    onFocus?: React.FocusEventHandler<HTMLInputElement>
+  ) => {
+    if (ignoreFocusRef.current) {
+      ignoreFocusRef.current = false;
+      const { x, y } = scrollOffsetRef.current;
+      scrollOffsetRef.current = null;
+      // Focus will cause the browser to scroll the <input> into view.
+      // This can cause the mouse coords to change, which in turn
+      // could cause a new highlight to happen, cancelling the click
+      // event (when selecting with the mouse)
+      window.scrollTo(x, y);
+      // Some browsers wait until all focus event handlers have been
+      // processed before scrolling the <input> into view, so let's
+      // scroll again on the next tick to ensure we're back to where
+      // the user was before focus was lost. We could do the deferred
+      // scroll only, but that causes a jarring split second jump in
+      // some browsers that scroll before the focus event handlers
+      // are triggered.
+      clearTimeout(scrollTimerRef.current);
+      scrollTimerRef.current = setTimeout(() => {
+        scrollTimerRef.current = null;
+        window.scrollTo(x, y);
+      }, 0);
+      return;
+    }
+    setState({ isOpen: true, type: "input-focus" });
+    if (onFocus) {
+      onFocus(event);
+    }
+  };
+
+  const isInputFocused = () => {
+    const el = inputRef.current;
+    return !!el?.ownerDocument && el === el.ownerDocument.activeElement;
+  };
+
+  const handleInputClick = () => {
+    // Input will not be focused if it's disabled
+    if (isInputFocused() && !isOpen) {
+      setState({ isOpen: true, type: "input-click" });
+    }
+  };
+
+  const setInputNode = useCallback((node: HTMLInputElement | null) => {
+    inputRef.current = node;
+    assignRef(externalInputRef.current, node);
+  }, []);
+
+  // Whether the menu is in the DOM, which it may not be on the server or
+  // before a portal can be rendered, even though it is open
+  const [menuMounted, setMenuMounted] = useState(false);
+  const setMenuNode = useCallback((node: HTMLElement | null) => {
+    menuRef.current = node;
+    setMenuMounted(node !== null);
+  }, []);
+
+  const getInputProps: InputPropGetter = (inputProps = {}) => {
+    const {
+      ref,
+      onFocus,
+      onBlur,
+      onKeyDown,
+      onClick,
+      onCompositionStart,
+      onCompositionEnd,
+      onSelect,
+      ...rest
+    } = inputProps;
+    externalInputRef.current = ref;
+    return {
+      ...rest,
+      form: props.form,
+      role: "combobox",
+      "aria-autocomplete": "list",
+      "aria-expanded": isOpen,
+      "aria-haspopup": "listbox",
+      "aria-controls": isOpen && menuMounted ? menuId : undefined,
+      "aria-activedescendant":
+        isOpen && menuMounted && highlightedIndex !== null
+          ? getItemId(highlightedIndex)
+          : undefined,
+      autoComplete: "off",
+      ref: setInputNode,
+      onFocus: (event: React.FocusEvent<HTMLInputElement>) =>
+        handleInputFocus(event, onFocus),
+      onBlur: (event: React.FocusEvent<HTMLInputElement>) =>
+        handleInputBlur(event, onBlur),
+      onChange: handleChange,
+      onKeyDown: composeEventHandlers(handleKeyDown, onKeyDown),
+      onClick: composeEventHandlers(handleInputClick, onClick),
+      onSelect: composeEventHandlers(handleSelect, onSelect),
+      onCompositionStart: composeEventHandlers(
+        handleCompositionStart,
+        onCompositionStart
+      ),
+      onCompositionEnd: composeEventHandlers(
+        handleCompositionEnd,
+        onCompositionEnd
+      ),
+      value: completion ?? inputValue,
+    };
+  };
+
+  const handleMenuScroll = (event: React.UIEvent<HTMLElement>) => {
+    if (props.virtualize) virtual.syncViewport();
+    const menu = event.currentTarget;
+    if (
+      menu.scrollHeight - menu.scrollTop - menu.clientHeight <=
+      LOAD_MORE_DISTANCE
+    ) {
+      loadMore();
+    }
+  };
+
+  const getMenuProps: UseAutocompleteResult<ItemT>["getMenuProps"] = (
+    menuProps = {} as never
+  ) => ({
+    tabIndex: -1,
+    ...menuProps,
+    id: menuId,
+    role: "listbox",
+    "aria-busy": asyncItems.loading || undefined,
+    ref: setMenuNode,
+    onScroll: composeEventHandlers(handleMenuScroll, menuProps.onScroll),
+    onFocus: composeEventHandlers(() => {
+      menuFocusedRef.current = true;
+    }, menuProps.onFocus),
+    onBlur: composeEventHandlers(handleMenuBlur, menuProps.onBlur),
+    // Only reached when the menu itself has the focus
+    onKeyDown: composeEventHandlers((event: React.KeyboardEvent) => {
+      const hasBinding = props.keyBindings?.[event.key] !== undefined;
+      if (hasBinding || !handleTypeahead(event)) {
+        runKeyBinding(event as React.KeyboardEvent<HTMLInputElement>);
+      }
+    }, menuProps.onKeyDown),
+    // Ignore blur to prevent menu from de-rendering before we can process click
+    onTouchStart: () => setIgnoreBlur(true),
+    onMouseEnter: () => setIgnoreBlur(true),
+    onMouseLeave: () => setIgnoreBlur(false),
+  });
+
+  const getItemProps: UseAutocompleteResult<ItemT>["getItemProps"] = ({
+    item,
+    index,
+    ...itemProps
+  }) => {
+    const selectable = isItemSelectable(item);
+    return {
+      ...itemProps,
+      id: getItemId(index),
+      role: "option",
+      "aria-selected": highlightedIndex === index,
+      "aria-disabled": selectable ? undefined : true,
+      // For styling, as `aria-selected` is always set
+      "data-highlighted": highlightedIndex === index || undefined,
+      "data-disabled": selectable ? undefined : true,
+      // Not every option is in the DOM when virtualized
+      "aria-setsize": props.virtualize ? items.length : undefined,
+      "aria-posinset": props.virtualize ? index + 1 : undefined,
+      onMouseEnter: selectable ? () => highlightItemFromMouse(index) : null,
+      onClick: selectable ? () => selectItemFromMouse(item) : null,
+      ref: (node: HTMLElement | null) => {
+        if (node) itemRefs.current.set(index, node);
+        else itemRefs.current.delete(index);
+        if (props.virtualize) virtual.measure(item, node);
+      },
+    };
+  };
+
+  return {
+    isOpen,
+    highlightedIndex,
+    items,
+    value: query,
+    menuPosition: {
+      left: state.menuLeft,
+      top: state.menuTop,
+      bottom: state.menuBottom,
+      minWidth: state.menuWidth,
+      maxHeight: state.menuMaxHeight,
+    },
+    menuPlacement: state.menuPlacement ?? props.placement,
+    menuId,
+    getItemId,
+    getItemKey,
+    announcement,
+    getItemMatch: (item) => filtered.matches?.get(item) ?? null,
+    groups,
+    getGroupProps: (group, groupProps = {} as never) => ({
+      ...groupProps,
+      role: "group",
+      "aria-labelledby": group.id,
+    }),
+    getGroupHeaderProps: (group, headerProps = {} as never) => ({
+      ...headerProps,
+      id: group.id,
+      role: "presentation",
+    }),
+    virtualItems: virtual.virtualItems,
+    totalSize: virtual.totalSize,
+    loading: asyncItems.loading,
+    error: asyncItems.error,
+    loadingMore,
+    loadMore,
+    createItem: showCreateItem ? createItem : null,
+    creating: creatable.creating,
+    createError: creatable.createError,
+    showingSuggestions,
+    mention,
+    recentItems: recent.recentItems,
+    clearHistory: recent.clearHistory,
+    inputRef,
+    getInputProps,
+    getMenuProps,
+    getItemProps,
+    getLiveRegionProps: () => ({
+      role: "status",
+      "aria-live": "polite",
+      "aria-atomic": true,
+      style: visuallyHiddenStyle,
+      children: announcement,
+    }),
+    getHiddenInputProps: () =>
+      props.name === undefined
+        ? []
+        : formValues.map((value) => ({
+            type: "hidden",
+            name: props.name,
+            form: props.form,
+            value,
+            ref: props.multiple ? undefined : setHiddenInputNode,
+          })),
+    selectedItems,
+    getSelectedItemProps: multipleSelection.getSelectedItemProps,
+    removeSelectedItem: multipleSelection.removeSelectedItem,
+    setHighlightedIndex: (index) =>
+      setState({ highlightedIndex: index, type: "api" }),
+    openMenu,
+    closeMenu: () => closeMenu(),
+    selectItem: (item) => selectItemFromMouse(item, "api"),
+  };
+}
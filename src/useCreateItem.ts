@@ -0,0 +1,78 @@
+import { useCallback, useMemo, useState } from "react";
+
+/**
+ * The entry appended to the items to let the user create `query`.
+ */
+class CreateItem {
+  constructor(readonly query: string) {}
+}
+
+export function isCreateItem(item: unknown): boolean {
+  return item instanceof CreateItem;
+}
+
+export type CreateItemHandler<ItemT> = (
+  query: string
+) => ItemT | PromiseLike<ItemT>;
+
+/**
+ * Keeps the "create" entry for `query` and runs `onCreate` when it is
+ * selected, waiting for it when it returns a promise. A rejection is kept as
+ * `createError` until `query` changes or the entry is selected again. The
+ * `getItemValue` and `isItemSelectable` it returns also handle the entry,
+ * whose value is `query` and which can't be selected while `creating`.
+ */
+export function useCreateItem<ItemT>(
+  onCreate: CreateItemHandler<ItemT> | undefined,
+  query: string,
+  getItemValue: (item: ItemT) => string,
+  isItemSelectable: (item: ItemT) => boolean
+) {
+  const [creating, setCreating] = useState(false);
+  const [failure, setFailure] = useState<{
+    query: string;
+    error: unknown;
+  } | null>(null);
+  // Kept for as long as the query is, as virtualization measures items by
+  // identity
+  const createItem = useMemo(
+    () => new CreateItem(query) as unknown as ItemT,
+    [query]
+  );
+
+  /**
+   * Creates an item for `query` and hands it to `select`.
+   */
+  const create = (query: string, select: (item: ItemT) => void) => {
+    setFailure(null);
+    const result = onCreate(query);
+    if (typeof (result as PromiseLike<ItemT>)?.then !== "function") {
+      select(result as ItemT);
+      return;
+    }
+    setCreating(true);
+    Promise.resolve(result)
+      .then(select, (error) => setFailure({ query, error }))
+      .finally(() => setCreating(false));
+  };
+
+  const createError = failure?.query === query ? failure.error : null;
+
+  const getEntryValue = useCallback(
+    (item: ItemT) => (isCreateItem(item) ? query : getItemValue(item)),
+    [query, getItemValue]
+  );
+  const isEntrySelectable = useCallback(
+    (item: ItemT) => (isCreateItem(item) ? !creating : isItemSelectable(item)),
+    [creating, isItemSelectable]
+  );
+
+  return {
+    createItem,
+    creating,
+    createError,
+    create,
+    getItemValue: getEntryValue,
+    isItemSelectable: isEntrySelectable,
+  };
+}
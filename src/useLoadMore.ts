@@ -0,0 +1,42 @@
+import { useRef, useState } from "react";
+
+/**
+ * Requests the next page of `items`, whose entries are expected to be
+ * appended.
+ */
+export type LoadMore = () => void | PromiseLike<void>;
+
+/**
+ * Invokes `onLoadMore` when asked to, unless the promise it returned for the
+ * current number of items is still pending, so reaching the end of the list
+ * again before the page arrives does not request it twice. `itemCount` must
+ * not depend on filtering, which a page may leave unchanged.
+ */
+export function useLoadMore(
+  hasMore: boolean | undefined,
+  onLoadMore: LoadMore | undefined,
+  itemCount: number
+) {
+  // How many items there were when the pending page was requested
+  const [requestedAt, setRequestedAt] = useState<number | null>(null);
+  const requestedAtRef = useRef(requestedAt);
+  requestedAtRef.current = requestedAt;
+  const loadingMore = !!hasMore && requestedAt === itemCount;
+
+  const loadMore = () => {
+    if (!hasMore || !onLoadMore || requestedAtRef.current === itemCount) {
+      return;
+    }
+    const result = onLoadMore();
+    // Nothing to wait for
+    if (typeof (result as PromiseLike<void>)?.then !== "function") return;
+    requestedAtRef.current = itemCount;
+    setRequestedAt(itemCount);
+    // The page may have been empty, or failed: let it be requested again
+    const settle = () =>
+      setRequestedAt((current) => (current === itemCount ? null : current));
+    (result as PromiseLike<void>).then(settle, settle);
+  };
+
+  return { loadingMore, loadMore };
+}
@@ -0,0 +1,119 @@
+import React, { useRef, useState } from "react";
+import { composeEventHandlers, useIsomorphicLayoutEffect } from "./utils";
+
+/**
+ * Keeps track of the items picked in `multiple` mode and of the keyboard
+ * focus moving between their chips and the input.
+ */
+export function useMultipleSelection<ItemT>(
+  selectedItemsProp: ItemT[] | undefined,
+  onSelectedItemsChange: ((selectedItems: ItemT[]) => void) | undefined,
+  inputRef: React.MutableRefObject<HTMLInputElement | null>
+) {
+  const [internalSelectedItems, setInternalSelectedItems] = useState<ItemT[]>(
+    []
+  );
+  const selectedItems = selectedItemsProp ?? internalSelectedItems;
+  // By item rather than index, so a removed chip's node is never reused
+  const chipRefs = useRef(new Map<ItemT, HTMLElement>());
+  // Index of the chip to focus once the next render has been committed, or
+  // `selectedItems.length` for the input
+  const pendingFocusRef = useRef<number | null>(null);
+
+  useIsomorphicLayoutEffect(() => {
+    const index = pendingFocusRef.current;
+    if (index === null) return;
+    pendingFocusRef.current = null;
+    focusSelectedItem(index);
+  });
+
+  const setSelectedItems = (nextSelectedItems: ItemT[]) => {
+    if (selectedItemsProp === undefined) {
+      setInternalSelectedItems(nextSelectedItems);
+    }
+    if (onSelectedItemsChange) onSelectedItemsChange(nextSelectedItems);
+  };
+
+  const addSelectedItem = (item: ItemT) => {
+    setSelectedItems([...selectedItems, item]);
+  };
+
+  const removeSelectedItem = (item: ItemT) => {
+    setSelectedItems(selectedItems.filter((selected) => selected !== item));
+  };
+
+  const focusSelectedItem = (index: number) => {
+    const node = chipRefs.current.get(selectedItems[index]) ?? inputRef.current;
+    if (node) node.focus();
+  };
+
+  /**
+   * Handles the keys which move from the input to the chips. Returns whether
+   * the event has been handled.
+   */
+  const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    const input = event.currentTarget;
+    if (!selectedItems.length) return false;
+    if (event.key === "Backspace" && input.value === "") {
+      event.preventDefault();
+      removeSelectedItem(selectedItems[selectedItems.length - 1]);
+      return true;
+    }
+    if (
+      event.key === "ArrowLeft" &&
+      input.selectionStart === 0 &&
+      input.selectionEnd === 0
+    ) {
+      event.preventDefault();
+      focusSelectedItem(selectedItems.length - 1);
+      return true;
+    }
+    return false;
+  };
+
+  const getSelectedItemProps = <
+    PropsT extends React.HTMLAttributes<HTMLElement>
+  >({
+    item,
+    index,
+    ...chipProps
+  }: PropsT & { item: ItemT; index: number }) => ({
+    ...chipProps,
+    tabIndex: -1,
+    ref: (node: HTMLElement | null) => {
+      if (node) chipRefs.current.set(item, node);
+      else chipRefs.current.delete(item);
+    },
+    onKeyDown: composeEventHandlers((event: React.KeyboardEvent) => {
+      switch (event.key) {
+        case "ArrowLeft":
+          event.preventDefault();
+          focusSelectedItem(Math.max(0, index - 1));
+          break;
+        case "ArrowRight":
+          event.preventDefault();
+          focusSelectedItem(index + 1);
+          break;
+        case "Backspace":
+          event.preventDefault();
+          removeSelectedItem(item);
+          pendingFocusRef.current = Math.max(0, index - 1);
+          break;
+        case "Delete":
+          event.preventDefault();
+          removeSelectedItem(item);
+          pendingFocusRef.current = index;
+          break;
+      }
+    }, chipProps.onKeyDown),
+  });
+
+  return {
+    selectedItems,
+    setSelectedItems,
+    addSelectedItem,
+    removeSelectedItem,
+    handleInputKeyDown,
+    getSelectedItemProps,
+  };
+}
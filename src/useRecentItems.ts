@@ -0,0 +1,120 @@
+import { useMemo, useRef, useState } from "react";
+import { useIsomorphicLayoutEffect } from "./utils";
+
+/**
+ * Where the recently selected items are kept. `localStorage` and
+ * `sessionStorage` can be used as is.
+ */
+export interface HistoryStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface HistoryOptions<ItemT> {
+  /**
+   * Under which key the items are kept in `storage`. Instances with the same
+   * key share their history.
+   */
+  key: string;
+  /**
+   * Defaults to a storage kept in memory until the page is reloaded.
+   */
+  storage?: HistoryStorage;
+  /**
+   * How many items to keep.
+   */
+  maxLength?: number;
+  /**
+   * Used to tell whether two items are the same. Defaults to the
+   * autocomplete's `getItemKey`, or `getItemValue` without it.
+   */
+  getItemKey?: (item: ItemT) => string;
+}
+
+const DEFAULT_MAX_LENGTH = 5;
+
+/**
+ * Creates a `HistoryStorage` which keeps the items in memory.
+ */
+export function createMemoryStorage(): HistoryStorage {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: (key) => {
+      values.delete(key);
+    },
+  };
+}
+
+const defaultStorage = createMemoryStorage();
+
+function readItems<ItemT>(
+  storage: HistoryStorage,
+  key: string | undefined
+): ItemT[] {
+  if (key === undefined) return [];
+  try {
+    const items = JSON.parse(storage.getItem(key));
+    return Array.isArray(items) ? items : [];
+  } catch {
+    // Written by something else, or not at all
+    return [];
+  }
+}
+
+/**
+ * Keeps the items last selected, most recent first, in the storage `history`
+ * points to, and merges them with `defaultSuggestions`.
+ */
+export function useRecentItems<ItemT>(
+  history: HistoryOptions<ItemT> | undefined,
+  defaultSuggestions: ItemT[] | undefined,
+  getDefaultItemKey: (item: ItemT) => string
+) {
+  const storage = history?.storage ?? defaultStorage;
+  const key = history?.key;
+  const getItemKey = history?.getItemKey ?? getDefaultItemKey;
+  const getItemKeyRef = useRef(getItemKey);
+  getItemKeyRef.current = getItemKey;
+  const [recentItems, setRecentItems] = useState<ItemT[]>([]);
+  // Read once mounted, as the server can't see what the browser stored
+  useIsomorphicLayoutEffect(() => {
+    setRecentItems(readItems(storage, key));
+  }, [storage, key]);
+
+  const addRecentItem = (item: ItemT) => {
+    if (key === undefined) return;
+    const itemKey = getItemKey(item);
+    const items = [
+      item,
+      ...recentItems.filter((recentItem) => getItemKey(recentItem) !== itemKey),
+    ].slice(0, history.maxLength ?? DEFAULT_MAX_LENGTH);
+    storage.setItem(key, JSON.stringify(items));
+    setRecentItems(items);
+  };
+
+  const clearHistory = () => {
+    if (key !== undefined) storage.removeItem(key);
+    setRecentItems([]);
+  };
+
+  // Kept between renders, as a change of items updates the highlight
+  const suggestions = useMemo(() => {
+    if (!defaultSuggestions) return recentItems;
+    const recentKeys = new Set(
+      recentItems.map((item) => getItemKeyRef.current(item))
+    );
+    return [
+      ...recentItems,
+      ...defaultSuggestions.filter(
+        (item) => !recentKeys.has(getItemKeyRef.current(item))
+      ),
+    ];
+  }, [recentItems, defaultSuggestions]);
+
+  return { recentItems, suggestions, addRecentItem, clearHistory };
+}
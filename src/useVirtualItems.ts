@@ -0,0 +1,156 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+
+export interface VirtualizeOptions {
+  /**
+   * Height of every item in pixels. When omitted, items are measured once
+   * they have been rendered and `estimatedItemHeight` is used until then.
+   */
+  itemHeight?: number;
+  /**
+   * Height assumed for items which have not been measured yet.
+   */
+  estimatedItemHeight?: number;
+  /**
+   * How many items to render above and below the visible ones.
+   */
+  overscan?: number;
+}
+
+export interface VirtualItem<ItemT = unknown> {
+  item: ItemT;
+  index: number;
+  /**
+   * Offset of the item from the top of the menu's content.
+   */
+  start: number;
+  size: number;
+}
+
+const DEFAULT_ESTIMATED_ITEM_HEIGHT = 30;
+const DEFAULT_OVERSCAN = 5;
+
+function findIndexAt(offsets: number[], position: number) {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (offsets[middle] <= position) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+}
+
+/**
+ * Works out which of `items` are visible in the scroll container `menuRef`
+ * points to. Returns `virtualItems: null` when `options` is not given, in
+ * which case every item is expected to be rendered. `sourceItems` are the
+ * items `items` were filtered from: the heights measured for any other item
+ * are forgotten.
+ */
+export function useVirtualItems<ItemT>(
+  items: ItemT[],
+  options: VirtualizeOptions | undefined,
+  menuRef: React.MutableRefObject<HTMLElement | null>,
+  sourceItems: ItemT[]
+) {
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  // Measured heights, keyed by item so they survive filtering
+  const sizesRef = useRef(new Map<ItemT, number>());
+  const [, setSizesVersion] = useState(0);
+
+  // E.g. `loadItems` resolves with new objects for every query
+  useEffect(() => {
+    const sizes = sizesRef.current;
+    if (!sizes.size) return;
+    const kept = new Set(sourceItems);
+    for (const item of sizes.keys()) {
+      if (!kept.has(item)) sizes.delete(item);
+    }
+  }, [sourceItems]);
+
+  const fallbackSize =
+    options?.estimatedItemHeight ?? DEFAULT_ESTIMATED_ITEM_HEIGHT;
+  const getSize = (item: ItemT) =>
+    options?.itemHeight ?? sizesRef.current.get(item) ?? fallbackSize;
+
+  // offsets[i] is where items[i] starts, offsets[items.length] is the total
+  let offsets: number[] = [];
+  if (options) {
+    offsets = new Array(items.length + 1);
+    offsets[0] = 0;
+    for (let i = 0; i < items.length; i++) {
+      offsets[i + 1] = offsets[i] + getSize(items[i]);
+    }
+  }
+  const totalSize = options ? offsets[items.length] : 0;
+
+  let virtualItems: VirtualItem<ItemT>[] | null = null;
+  if (options && items.length) {
+    const overscan = options.overscan ?? DEFAULT_OVERSCAN;
+    const first = findIndexAt(offsets, viewport.scrollTop);
+    const last = findIndexAt(offsets, viewport.scrollTop + viewport.height);
+    const start = Math.max(0, first - overscan);
+    const end = Math.min(items.length - 1, last + overscan);
+    virtualItems = [];
+    for (let index = start; index <= end; index++) {
+      virtualItems.push({
+        item: items[index],
+        index,
+        start: offsets[index],
+        size: offsets[index + 1] - offsets[index],
+      });
+    }
+  }
+
+  const updateViewport = useCallback((scrollTop: number, height: number) => {
+    setViewport((prev) =>
+      prev.scrollTop === scrollTop && prev.height === height
+        ? prev
+        : { scrollTop, height }
+    );
+  }, []);
+
+  /**
+   * Reads the scroll position and the height of the menu.
+   */
+  const syncViewport = useCallback(() => {
+    const menu = menuRef.current;
+    if (menu) updateViewport(menu.scrollTop, menu.clientHeight);
+  }, [menuRef, updateViewport]);
+
+  /**
+   * Records the height of a rendered item, unless `itemHeight` is fixed.
+   */
+  const measure = (item: ItemT, node: HTMLElement | null) => {
+    if (!node || options?.itemHeight !== undefined) return;
+    const size = node.getBoundingClientRect().height;
+    if (size && sizesRef.current.get(item) !== size) {
+      sizesRef.current.set(item, size);
+      setSizesVersion((version) => version + 1);
+    }
+  };
+
+  /**
+   * Scrolls the menu just enough for `items[index]` to be fully visible.
+   */
+  const scrollToIndex = (index: number) => {
+    const menu = menuRef.current;
+    if (!menu || !options || index >= items.length) return;
+    const start = offsets[index];
+    const end = offsets[index + 1];
+    if (start < menu.scrollTop || end - start > menu.clientHeight) {
+      menu.scrollTop = start;
+    } else if (end > menu.scrollTop + menu.clientHeight) {
+      menu.scrollTop = end - menu.clientHeight;
+    }
+    syncViewport();
+  };
+
+  return {
+    virtualItems,
+    totalSize,
+    syncViewport,
+    measure,
+    scrollToIndex,
+  };
+}
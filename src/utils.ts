@@ -0,0 +1,25 @@
+import React, { useEffect, useLayoutEffect } from "react";
+
+export function composeEventHandlers<EventT>(
+  internal: (event: EventT) => void,
+  external?: (event: EventT) => void
+) {
+  return external
+    ? (e: EventT) => {
+        internal(e);
+        external(e);
+      }
+    : internal;
+}
+
+export function assignRef<T>(ref: React.Ref<T> | undefined, value: T) {
+  if (typeof ref === "function") ref(value);
+  else if (ref) (ref as React.MutableRefObject<T>).current = value;
+}
+
+/**
+ * `useLayoutEffect` in the browser and `useEffect` on the server, where
+ * neither runs but React warns about the former.
+ */
+export const useIsomorphicLayoutEffect =
+  typeof window !== "undefined" ? useLayoutEffect : useEffect;
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -5,13 +6,16 @@ import dts from "vite-plugin-dts";
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react(), dts()],
+  plugins: [react(), dts({ exclude: ["src/__tests__/**"] })],
   build: {
     minify: "esbuild",
     lib: {
-      entry: path.resolve(__dirname, "src/index.tsx"),
+      entry: path.resolve(__dirname, "src/index.ts"),
       name: "Autocomplete",
       fileName: (format) => `Autocomplete.${format}.js`,
     },
   },
+  test: {
+    environment: "jsdom",
+  },
 });